@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import dayjs from 'dayjs'
+import type { Dayjs } from 'dayjs'
+import {
+  toBillingInterval,
+  getCycleDays,
+  getCycleMonths,
+  getAnchoredBillingDate,
+  getAnchoredBillingIndex,
+  getNextAnchoredBillingDate,
+  getPreviousAnchoredBillingDate,
+  ValidationError
+} from '../src'
+import type { BillingCycle } from '../src'
+
+const ymd = (date: Dayjs): string => date.format('YYYY-MM-DD')
+
+describe('getCycleMonths', () => {
+  it('should return the months of each cycle', () => {
+    expect(getCycleMonths('weekly')).toBe(0)
+    expect(getCycleMonths('monthly')).toBe(1)
+    expect(getCycleMonths('quarterly')).toBe(3)
+    expect(getCycleMonths('yearly')).toBe(12)
+  })
+})
+
+describe('billing intervals', () => {
+  it('should resolve named cycles as aliases', () => {
+    expect(toBillingInterval('weekly')).toEqual({ count: 1, unit: 'week' })
+    expect(toBillingInterval('quarterly')).toEqual({ count: 3, unit: 'month' })
+    expect(toBillingInterval({ count: 28, unit: 'day' })).toEqual({ count: 28, unit: 'day' })
+  })
+
+  it('should measure custom intervals', () => {
+    expect(getCycleDays({ count: 2, unit: 'week' })).toBe(14)
+    expect(getCycleDays({ count: 28, unit: 'day' })).toBe(28)
+    expect(getCycleDays('monthly')).toBe(0)
+    expect(getCycleMonths({ count: 6, unit: 'month' })).toBe(6)
+    expect(getCycleMonths({ count: 3, unit: 'year' })).toBe(36)
+    expect(getCycleMonths({ count: 2, unit: 'week' })).toBe(0)
+  })
+
+  it('should reject invalid intervals', () => {
+    expect(() => toBillingInterval({ count: 0, unit: 'day' })).toThrow(ValidationError)
+    expect(() => toBillingInterval({ count: 1.5, unit: 'month' })).toThrow(
+      'Invalid billing interval count'
+    )
+    expect(() => toBillingInterval({ count: 1, unit: 'hour' as never })).toThrow(
+      'Invalid billing interval unit'
+    )
+  })
+
+  it('should build anchored schedules from custom intervals', () => {
+    const anchor = dayjs('2024-01-31')
+    const dates = (cycle: BillingCycle): string[] =>
+      [1, 2, 3].map(index => ymd(getAnchoredBillingDate(anchor, cycle, index)))
+
+    expect(dates({ count: 2, unit: 'week' })).toEqual(['2024-02-14', '2024-02-28', '2024-03-13'])
+    expect(dates({ count: 28, unit: 'day' })).toEqual(['2024-02-28', '2024-03-27', '2024-04-24'])
+    expect(dates({ count: 6, unit: 'month' })).toEqual(['2024-07-31', '2025-01-31', '2025-07-31'])
+    expect(dates({ count: 3, unit: 'year' })).toEqual(['2027-01-31', '2030-01-31', '2033-01-31'])
+    expect(
+      ymd(getNextAnchoredBillingDate(anchor, dayjs('2024-03-27'), { count: 28, unit: 'day' }))
+    ).toBe('2024-04-24')
+  })
+})
+
+describe('anchored billing', () => {
+  const anchor = dayjs('2024-01-31')
+
+  it('should keep the anchor day across short months', () => {
+    const dates = [0, 1, 2, 3, 4].map(index =>
+      ymd(getAnchoredBillingDate(anchor, 'monthly', index))
+    )
+    expect(dates).toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30', '2024-05-31'])
+    expect(ymd(getAnchoredBillingDate(anchor, 'quarterly', 1))).toBe('2024-04-30')
+    expect(ymd(getAnchoredBillingDate(dayjs('2024-02-29'), 'yearly', 1))).toBe('2025-02-28')
+    expect(ymd(getAnchoredBillingDate(dayjs('2024-02-29'), 'yearly', 4))).toBe('2028-02-29')
+    expect(ymd(getAnchoredBillingDate(anchor, 'weekly', 2))).toBe('2024-02-14')
+  })
+
+  it('should find the cycle containing a date', () => {
+    expect(getAnchoredBillingIndex(anchor, dayjs('2024-02-28'), 'monthly')).toBe(0)
+    expect(getAnchoredBillingIndex(anchor, dayjs('2024-02-29'), 'monthly')).toBe(1)
+    expect(getAnchoredBillingIndex(anchor, dayjs('2024-03-30'), 'monthly')).toBe(1)
+    expect(getAnchoredBillingIndex(anchor, dayjs('2024-03-31 18:00'), 'monthly')).toBe(2)
+    expect(getAnchoredBillingIndex(anchor, dayjs('2024-01-15'), 'monthly')).toBe(-1)
+  })
+
+  it('should find the next and previous billing dates', () => {
+    expect(ymd(getNextAnchoredBillingDate(anchor, dayjs('2024-02-29'), 'monthly'))).toBe(
+      '2024-03-31'
+    )
+    expect(ymd(getNextAnchoredBillingDate(anchor, dayjs('2024-04-15'), 'monthly'))).toBe(
+      '2024-04-30'
+    )
+    expect(ymd(getPreviousAnchoredBillingDate(anchor, dayjs('2024-03-31'), 'monthly'))).toBe(
+      '2024-02-29'
+    )
+    expect(ymd(getPreviousAnchoredBillingDate(anchor, dayjs('2024-05-01'), 'quarterly'))).toBe(
+      '2024-04-30'
+    )
+  })
+
+  it('should not drift when walking the schedule date by date', () => {
+    let date = anchor
+    const dates: string[] = []
+    for (let i = 0; i < 6; i++) {
+      date = getNextAnchoredBillingDate(anchor, date, 'monthly')
+      dates.push(ymd(date))
+    }
+    expect(dates).toEqual([
+      '2024-02-29',
+      '2024-03-31',
+      '2024-04-30',
+      '2024-05-31',
+      '2024-06-30',
+      '2024-07-31'
+    ])
+  })
+})
@@ -0,0 +1,122 @@
+import type { Dayjs } from 'dayjs'
+import type { BillingCycle, BillingInterval, SubscriptionCycle } from './types'
+import { validateBillingInterval } from './validator'
+
+/**
+ * Billing cycle arithmetic shared by the subscription-cycle plugin and
+ * BillingDateService.
+ *
+ * Anchored schedules compute every billing date from the original anchor
+ * (usually the subscription start) rather than from the previous billing date,
+ * so short months never shift later cycles: Jan 31 → Feb 29 → Mar 31 → Apr 30.
+ * Roll conventions are applied to the returned dates by the callers and never
+ * fed back into the schedule.
+ */
+
+/**
+ * Intervals of the named subscription cycles
+ */
+export const BILLING_CYCLE_INTERVALS: Readonly<Record<SubscriptionCycle, BillingInterval>> = {
+  weekly: { count: 1, unit: 'week' },
+  monthly: { count: 1, unit: 'month' },
+  quarterly: { count: 3, unit: 'month' },
+  yearly: { count: 1, unit: 'year' }
+}
+
+/**
+ * Resolve a billing cycle to its interval (named cycles are aliases)
+ * @throws {ValidationError} if a custom interval is invalid
+ */
+export function toBillingInterval(cycle: BillingCycle): BillingInterval {
+  if (typeof cycle === 'string') {
+    return BILLING_CYCLE_INTERVALS[cycle]
+  }
+  validateBillingInterval(cycle)
+  return cycle
+}
+
+/**
+ * Get the length of a billing cycle in months (0 for day and week intervals)
+ */
+export function getCycleMonths(cycle: BillingCycle): number {
+  const { count, unit } = toBillingInterval(cycle)
+  switch (unit) {
+    case 'month':
+      return count
+    case 'year':
+      return count * 12
+    default:
+      return 0
+  }
+}
+
+/**
+ * Get the length of a billing cycle in days (0 for month and year intervals)
+ */
+export function getCycleDays(cycle: BillingCycle): number {
+  const { count, unit } = toBillingInterval(cycle)
+  switch (unit) {
+    case 'day':
+      return count
+    case 'week':
+      return count * 7
+    default:
+      return 0
+  }
+}
+
+/**
+ * Get the billing date of cycle `index` of an anchored schedule (0 is the
+ * anchor itself; negative indexes extend the schedule backwards). The anchor's
+ * day of month is clamped to shorter months.
+ * @example getAnchoredBillingDate(dayjs('2024-01-31'), 'monthly', 1) // 2024-02-29
+ */
+export function getAnchoredBillingDate(anchor: Dayjs, cycle: BillingCycle, index: number): Dayjs {
+  const start = anchor.startOf('day')
+  const days = getCycleDays(cycle)
+  return days > 0
+    ? start.add(index * days, 'day')
+    : start.add(index * getCycleMonths(cycle), 'month')
+}
+
+/**
+ * Get the index of the cycle containing a date: the last billing date of the
+ * anchored schedule on or before it (negative before the anchor)
+ */
+export function getAnchoredBillingIndex(anchor: Dayjs, date: Dayjs, cycle: BillingCycle): number {
+  const start = anchor.startOf('day')
+  const day = date.startOf('day')
+  const days = getCycleDays(cycle)
+
+  // Estimate from the elapsed time, then correct for clamped month ends
+  let index =
+    days > 0
+      ? Math.floor(day.diff(start, 'day') / days)
+      : Math.floor(day.diff(start, 'month') / getCycleMonths(cycle))
+  while (getAnchoredBillingDate(start, cycle, index).isAfter(day)) {
+    index--
+  }
+  while (!getAnchoredBillingDate(start, cycle, index + 1).isAfter(day)) {
+    index++
+  }
+  return index
+}
+
+/**
+ * Get the first billing date of an anchored schedule after a date
+ */
+export function getNextAnchoredBillingDate(anchor: Dayjs, date: Dayjs, cycle: BillingCycle): Dayjs {
+  return getAnchoredBillingDate(anchor, cycle, getAnchoredBillingIndex(anchor, date, cycle) + 1)
+}
+
+/**
+ * Get the last billing date of an anchored schedule before a date
+ */
+export function getPreviousAnchoredBillingDate(
+  anchor: Dayjs,
+  date: Dayjs,
+  cycle: BillingCycle
+): Dayjs {
+  const index = getAnchoredBillingIndex(anchor, date.subtract(1, 'day'), cycle)
+  return getAnchoredBillingDate(anchor, cycle, index)
+}
@@ -0,0 +1,253 @@
+import { describe, it, expect } from 'vitest'
+import dayjs from 'dayjs'
+import type { Dayjs } from 'dayjs'
+import {
+  countBusinessDays,
+  addBusinessDays,
+  businessDaysBetween,
+  countFractionalBusinessDays,
+  fractionalBusinessDaysBetween,
+  getNthBusinessDay,
+  toDayNumber,
+  findHoliday,
+  isWorkday,
+  getHolidayPack,
+  createHolidayCalendarRegistry,
+  ValidationError
+} from '../src'
+import type { BusinessDaySource } from '../src'
+
+const rules: BusinessDaySource = {
+  workdays: [1, 2, 3, 4, 5],
+  holidays: [
+    { date: '2020-12-25', name: 'Christmas', type: 'public', recurring: true },
+    {
+      date: '2020-07-04',
+      name: 'Independence Day',
+      type: 'public',
+      recurring: true,
+      observance: 'nearestWeekday'
+    },
+    {
+      date: '2020-11-26',
+      name: 'Thanksgiving',
+      type: 'public',
+      rule: { type: 'nthWeekday', month: 11, weekday: 4, nth: 4 }
+    },
+    ...getHolidayPack('zh-cn', 2024)
+  ],
+  extraWorkdays: ['2024-02-04', '2024-02-18', '2024-09-29', '2024-10-12']
+}
+
+/**
+ * Day-by-day reference implementation
+ */
+const isBusinessDay = (date: Dayjs): boolean =>
+  isWorkday(rules, date) && findHoliday(rules.holidays ?? [], date) === null
+
+const countByLoop = (start: Dayjs, end: Dayjs): number => {
+  let count = 0
+  for (let current = start; !current.isAfter(end, 'day'); current = current.add(1, 'day')) {
+    if (isBusinessDay(current)) {
+      count++
+    }
+  }
+  return count
+}
+
+const addByLoop = (start: Dayjs, days: number): Dayjs => {
+  const direction = days > 0 ? 1 : -1
+  let remaining = Math.abs(days)
+  let current = start
+  while (remaining > 0) {
+    current = current.add(direction, 'day')
+    if (isBusinessDay(current)) {
+      remaining--
+    }
+  }
+  return current
+}
+
+describe('toDayNumber', () => {
+  it('should count calendar days since the epoch', () => {
+    expect(toDayNumber(dayjs('1970-01-01'))).toBe(0)
+    expect(toDayNumber(dayjs('2024-01-01T23:59:59'))).toBe(19723)
+  })
+})
+
+describe('countBusinessDays', () => {
+  it('should count full and partial weeks', () => {
+    expect(
+      countBusinessDays(dayjs('2024-01-15'), dayjs('2024-01-19'), { workdays: [1, 2, 3, 4, 5] })
+    ).toBe(5)
+    expect(countBusinessDays(dayjs('2024-01-01'), dayjs('2024-12-31'), undefined)).toBe(262)
+    expect(countBusinessDays(dayjs('2024-01-19'), dayjs('2024-01-15'), undefined)).toBe(0)
+  })
+
+  it('should match the day-by-day count across holidays and make-up days', () => {
+    const start = dayjs('2023-12-20')
+    for (const length of [0, 1, 6, 7, 13, 45, 100, 366, 800]) {
+      const end = start.add(length, 'day')
+      expect(countBusinessDays(start, end, rules)).toBe(countByLoop(start, end))
+    }
+  })
+
+  it('should count observed holidays that cross the year boundary', () => {
+    const newYear: BusinessDaySource = {
+      workdays: [1, 2, 3, 4, 5],
+      holidays: [
+        {
+          date: '2020-01-01',
+          name: 'New Year',
+          type: 'public',
+          recurring: true,
+          observance: 'nearestWeekday'
+        }
+      ]
+    }
+    // 2022-01-01 is a Saturday, observed on Friday 2021-12-31
+    expect(countBusinessDays(dayjs('2021-12-27'), dayjs('2021-12-31'), newYear)).toBe(4)
+  })
+
+  it('should read registry calendars', () => {
+    const registry = createHolidayCalendarRegistry()
+    registry.set('cn', getHolidayPack('zh-cn', 2025))
+    const withCalendar = { workdays: [1, 2, 3, 4, 5], holidays: [], calendarId: 'cn' }
+
+    // 2025-10-01 .. 2025-10-10: National Day and Mid-Autumn leave Oct 7-10
+    expect(
+      countBusinessDays(dayjs('2025-10-01'), dayjs('2025-10-10'), withCalendar, registry)
+    ).toBe(4)
+  })
+})
+
+describe('addBusinessDays', () => {
+  it('should match the day-by-day result in both directions', () => {
+    const start = dayjs('2024-01-31T10:30:00')
+    for (const days of [1, 3, 5, 6, 20, 61, 250, -1, -5, -17, -250]) {
+      const expected = addByLoop(start, days)
+      const actual = addBusinessDays(start, days, rules)
+      expect(actual.format('YYYY-MM-DD HH:mm')).toBe(expected.format('YYYY-MM-DD HH:mm'))
+    }
+  })
+
+  it('should handle large offsets', () => {
+    // 1043 full weeks plus Tuesday to Thursday
+    const start = dayjs('2000-01-03')
+    expect(addBusinessDays(start, 5218, { workdays: [1, 2, 3, 4, 5] }).format('YYYY-MM-DD')).toBe(
+      '2020-01-02'
+    )
+  })
+
+  it('should return the same date for zero', () => {
+    const start = dayjs('2024-01-13')
+    expect(addBusinessDays(start, 0, rules)).toBe(start)
+  })
+
+  it('should reject rules without workdays', () => {
+    expect(() => addBusinessDays(dayjs('2024-01-15'), 1, { workdays: [] })).toThrow(ValidationError)
+  })
+
+  it('should only use make-up workdays when no weekday is a workday', () => {
+    const rules: BusinessDaySource = {
+      workdays: [],
+      holidays: [],
+      extraWorkdays: ['2024-01-06', '2024-01-13', '2023-12-30']
+    }
+    const start = dayjs('2024-01-01')
+    expect(addBusinessDays(start, 2, rules).format('YYYY-MM-DD')).toBe('2024-01-13')
+    expect(addBusinessDays(start, -1, rules).format('YYYY-MM-DD')).toBe('2023-12-30')
+    expect(() => addBusinessDays(start, 3, rules)).toThrow(ValidationError)
+    expect(() => addBusinessDays(start, -2, rules)).toThrow(ValidationError)
+  })
+})
+
+describe('businessDaysBetween', () => {
+  it('should exclude the start and include the end', () => {
+    expect(businessDaysBetween(dayjs('2024-01-15'), dayjs('2024-01-19'), undefined)).toBe(4)
+    expect(businessDaysBetween(dayjs('2024-01-19'), dayjs('2024-01-15'), undefined)).toBe(-4)
+    expect(businessDaysBetween(dayjs('2024-01-15'), dayjs('2024-01-15T18:00'), undefined)).toBe(0)
+  })
+
+  it('should round trip with addBusinessDays', () => {
+    const start = dayjs('2024-02-01')
+    const end = addBusinessDays(start, 150, rules)
+    expect(businessDaysBetween(start, end, rules)).toBe(150)
+  })
+})
+
+describe('partial holidays', () => {
+  // December 2024 has 22 weekdays; Christmas Eve closes early, Christmas is off
+  // and Saturday Dec 28 is a half make-up day
+  const december: BusinessDaySource = {
+    holidays: [
+      { date: '2024-12-24', name: 'Christmas Eve', type: 'public', workdayWeight: 0.5 },
+      { date: '2024-12-25', name: 'Christmas', type: 'public' },
+      { date: '2024-12-28', name: 'Saturday half-day', type: 'company', workdayWeight: 0.5 }
+    ],
+    extraWorkdays: ['2024-12-28']
+  }
+  const start = dayjs('2024-12-01')
+  const end = dayjs('2024-12-31')
+
+  it('should weight partial holidays in fractional counts', () => {
+    expect(countFractionalBusinessDays(start, end, december)).toBe(21)
+    expect(fractionalBusinessDaysBetween(dayjs('2024-12-23'), dayjs('2024-12-27'), december)).toBe(
+      2.5
+    )
+    expect(fractionalBusinessDaysBetween(dayjs('2024-12-27'), dayjs('2024-12-23'), december)).toBe(
+      -2.5
+    )
+  })
+
+  it('should keep partial holidays as whole business days in integer counts', () => {
+    expect(countBusinessDays(start, end, december)).toBe(22)
+    expect(addBusinessDays(dayjs('2024-12-23'), 1, december).format('YYYY-MM-DD')).toBe(
+      '2024-12-24'
+    )
+  })
+
+  it('should avoid floating point noise', () => {
+    const rules: BusinessDaySource = {
+      holidays: [1, 2, 3].map(day => ({
+        date: `2024-01-0${day}`,
+        name: 'Short day',
+        type: 'company' as const,
+        workdayWeight: 0.1
+      }))
+    }
+    expect(countFractionalBusinessDays(dayjs('2024-01-01'), dayjs('2024-01-05'), rules)).toBe(2.3)
+  })
+})
+
+describe('getNthBusinessDay', () => {
+  const march = { start: dayjs('2024-03-01'), end: dayjs('2024-03-31') }
+  const goodFriday: BusinessDaySource = {
+    holidays: [{ date: '2024-03-29', name: 'Good Friday', type: 'public' }]
+  }
+  const nth = (n: number, rules?: BusinessDaySource): string | undefined =>
+    getNthBusinessDay(march.start, march.end, n, rules)?.format('YYYY-MM-DD')
+
+  it('should count from the start of the range', () => {
+    expect(nth(1)).toBe('2024-03-01')
+    expect(nth(3)).toBe('2024-03-05')
+    expect(nth(21)).toBe('2024-03-29')
+  })
+
+  it('should count from the end for negative n', () => {
+    expect(nth(-1)).toBe('2024-03-29')
+    expect(nth(-1, goodFriday)).toBe('2024-03-28')
+    expect(nth(-21)).toBe('2024-03-01')
+  })
+
+  it('should return null when the range has fewer business days', () => {
+    expect(nth(22)).toBeUndefined()
+    expect(nth(-22)).toBeUndefined()
+    expect(getNthBusinessDay(dayjs('2024-03-02'), dayjs('2024-03-03'), 1, undefined)).toBeNull()
+  })
+
+  it('should reject invalid n', () => {
+    expect(() => nth(0)).toThrow(ValidationError)
+    expect(() => nth(1.5)).toThrow(ValidationError)
+  })
+})
@@ -0,0 +1,452 @@
+import type { Dayjs } from 'dayjs'
+import type { CalendarCombination, Holiday } from './types'
+import { DEFAULT_BUSINESS_RULES } from './types'
+import type { HolidayCalendarRegistry } from './registry'
+import { resolveHolidays } from './holiday'
+import { getHolidayIndex } from './holiday-index'
+import type { HolidaySource, WorkdaySource } from './holiday'
+import { ValidationError } from './validator'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Rules consulted by business-day arithmetic
+ */
+export interface BusinessDaySource extends WorkdaySource, HolidaySource {
+  readonly calendars?: readonly BusinessDaySource[]
+  readonly combine?: CalendarCombination
+}
+
+/**
+ * Holiday day numbers mapped to their workday weight (0 for a full day off),
+ * cached per list of holiday dates of a year
+ */
+const holidayYears = new WeakMap<readonly string[], ReadonlyMap<number, number>>()
+
+/**
+ * Make-up workday day numbers, cached per extraWorkdays array
+ */
+const extraWorkdaySets = new WeakMap<readonly string[], ReadonlySet<number>>()
+
+/**
+ * Days since 1970-01-01 of a YYYY-MM-DD date
+ */
+function parseDayNumber(dateStr: string): number {
+  return (
+    Date.UTC(
+      parseInt(dateStr.substring(0, 4), 10),
+      parseInt(dateStr.substring(5, 7), 10) - 1,
+      parseInt(dateStr.substring(8, 10), 10)
+    ) / MS_PER_DAY
+  )
+}
+
+/**
+ * Days since 1970-01-01 of the calendar date of an instance (time is ignored)
+ */
+export function toDayNumber(date: Dayjs): number {
+  return Date.UTC(date.year(), date.month(), date.date()) / MS_PER_DAY
+}
+
+/**
+ * Weekday (0 = Sunday) of a day number
+ */
+function weekdayOf(day: number): number {
+  return (((day + 4) % 7) + 7) % 7
+}
+
+function yearOf(day: number): number {
+  return new Date(day * MS_PER_DAY).getUTCFullYear()
+}
+
+/**
+ * Get the holiday days of a year and their workday weights from the shared
+ * holiday index
+ */
+function getHolidayDays(holidays: readonly Holiday[], year: number): ReadonlyMap<number, number> {
+  const index = getHolidayIndex(holidays)
+  const dates = index.getDatesInYear(year)
+  let days = holidayYears.get(dates)
+  if (!days) {
+    days = new Map(dates.map(date => [parseDayNumber(date), index.find(date)?.workdayWeight ?? 0]))
+    holidayYears.set(dates, days)
+  }
+  return days
+}
+
+function getExtraWorkdays(extraWorkdays: readonly string[] | undefined): ReadonlySet<number> {
+  if (!extraWorkdays || extraWorkdays.length === 0) {
+    return new Set()
+  }
+
+  let days = extraWorkdaySets.get(extraWorkdays)
+  if (!days) {
+    days = new Set(extraWorkdays.map(parseDayNumber))
+    extraWorkdaySets.set(extraWorkdays, days)
+  }
+  return days
+}
+
+/**
+ * Day-level view of a business calendar: a weekday mask plus the days that
+ * deviate from it (holidays and make-up workdays)
+ */
+interface DayCalendar {
+  /** Working weekdays (index 0 = Sunday) */
+  readonly weekdays: readonly boolean[]
+  /** Make-up workdays: the only days outside the weekday mask that can be business days */
+  readonly extraWorkdays: ReadonlySet<number>
+  /**
+   * Share of a working day worked on a day: 0 for non-business days, 1 for
+   * regular business days and the workday weight of partial holidays. Whole-day
+   * counts treat partial holidays as business days.
+   */
+  weightOf(day: number, fractional: boolean): number
+  /**
+   * Add the days in [from, to] whose weight may differ from the weekday mask
+   */
+  collectExceptions(from: number, to: number, days: Set<number>): void
+}
+
+/**
+ * Calendar compiled from one set of rules: weekday mask, holiday index and
+ * make-up workdays
+ */
+class RulesCalendar implements DayCalendar {
+  readonly weekdays: readonly boolean[]
+  readonly extraWorkdays: ReadonlySet<number>
+  private readonly holidays: readonly Holiday[]
+
+  constructor(rules: BusinessDaySource | undefined, registry: HolidayCalendarRegistry | undefined) {
+    const workdays = rules?.workdays ?? DEFAULT_BUSINESS_RULES.workdays
+    this.weekdays = [0, 1, 2, 3, 4, 5, 6].map(day => workdays.includes(day))
+    this.holidays = resolveHolidays(rules, registry)
+    this.extraWorkdays = getExtraWorkdays(rules?.extraWorkdays)
+  }
+
+  weightOf(day: number, fractional: boolean): number {
+    if (this.weekdays[weekdayOf(day)] !== true && !this.extraWorkdays.has(day)) {
+      return 0
+    }
+    if (this.holidays.length === 0) {
+      return 1
+    }
+    const weight = getHolidayDays(this.holidays, yearOf(day)).get(day)
+    if (weight === undefined) {
+      return 1
+    }
+    return fractional ? weight : weight > 0 ? 1 : 0
+  }
+
+  collectExceptions(from: number, to: number, days: Set<number>): void {
+    for (const day of this.extraWorkdays) {
+      if (day >= from && day <= to) {
+        days.add(day)
+      }
+    }
+    if (this.holidays.length > 0) {
+      for (let year = yearOf(from); year <= yearOf(to); year++) {
+        for (const day of getHolidayDays(this.holidays, year).keys()) {
+          if (day >= from && day <= to) {
+            days.add(day)
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Calendar combining member calendars: a day is a business day in every
+ * member (intersection) or in any member (union)
+ */
+class CombinedCalendar implements DayCalendar {
+  readonly weekdays: readonly boolean[]
+  readonly extraWorkdays: ReadonlySet<number>
+
+  constructor(
+    private readonly members: readonly DayCalendar[],
+    private readonly combine: CalendarCombination
+  ) {
+    const all = combine === 'intersection'
+    this.weekdays = [0, 1, 2, 3, 4, 5, 6].map(day =>
+      all
+        ? members.every(member => member.weekdays[day] === true)
+        : members.some(member => member.weekdays[day] === true)
+    )
+    this.extraWorkdays = new Set(members.flatMap(member => [...member.extraWorkdays]))
+  }
+
+  weightOf(day: number, fractional: boolean): number {
+    const weights = this.members.map(member => member.weightOf(day, fractional))
+    return this.combine === 'intersection' ? Math.min(...weights) : Math.max(...weights)
+  }
+
+  collectExceptions(from: number, to: number, days: Set<number>): void {
+    for (const member of this.members) {
+      member.collectExceptions(from, to, days)
+    }
+  }
+}
+
+function createDayCalendar(
+  rules: BusinessDaySource | undefined,
+  registry: HolidayCalendarRegistry | undefined
+): DayCalendar {
+  if (rules?.calendars === undefined) {
+    return new RulesCalendar(rules, registry)
+  }
+  if (rules.calendars.length === 0) {
+    throw new ValidationError('Composite calendar requires at least one calendar', 'calendars', [])
+  }
+  return new CombinedCalendar(
+    rules.calendars.map(calendar => createDayCalendar(calendar, registry)),
+    rules.combine ?? 'intersection'
+  )
+}
+
+/**
+ * Business-day arithmetic over a calendar, answering range counts by whole
+ * weeks plus the exception days instead of walking every day
+ */
+class BusinessDayCounter {
+  private readonly calendar: DayCalendar
+  private readonly perWeek: number
+
+  constructor(rules: BusinessDaySource | undefined, registry: HolidayCalendarRegistry | undefined) {
+    this.calendar = createDayCalendar(rules, registry)
+    this.perWeek = this.calendar.weekdays.filter(Boolean).length
+  }
+
+  isBusinessDay(day: number): boolean {
+    return this.calendar.weightOf(day, false) > 0
+  }
+
+  /**
+   * Count business days in [from, to] (inclusive day numbers, from <= to),
+   * weighting partial holidays when `fractional` is set
+   */
+  count(from: number, to: number, fractional = false): number {
+    if (from > to) {
+      return 0
+    }
+
+    // Full weeks contain every weekday exactly once
+    const weekdays = this.calendar.weekdays
+    const total = to - from + 1
+    let count = Math.floor(total / 7) * this.perWeek
+    for (let day = from + total - (total % 7); day <= to; day++) {
+      if (weekdays[weekdayOf(day)] === true) {
+        count++
+      }
+    }
+
+    // Correct the holidays and make-up workdays that deviate from the weekdays
+    const exceptions = new Set<number>()
+    this.calendar.collectExceptions(from, to, exceptions)
+    for (const day of exceptions) {
+      const expected = weekdays[weekdayOf(day)] === true ? 1 : 0
+      count += this.calendar.weightOf(day, fractional) - expected
+    }
+
+    // Avoid floating point noise from weights such as 0.1
+    return fractional ? Math.round(count * 1e6) / 1e6 : count
+  }
+
+  /**
+   * Move a day number by business days (non-zero)
+   */
+  add(start: number, days: number): number {
+    if (this.perWeek === 0) {
+      return this.addExtraWorkdays(start, days)
+    }
+
+    const direction = days > 0 ? 1 : -1
+    let remaining = Math.abs(days)
+    let current = start
+
+    while (remaining > 0) {
+      // Jump whole weeks while they cannot overshoot the target, halving the
+      // jump when make-up workdays in it would, then walk
+      let weeks = Math.floor((remaining - 1) / this.perWeek)
+      while (weeks > 0) {
+        const next = current + direction * weeks * 7
+        const counted =
+          direction === 1 ? this.count(current + 1, next) : this.count(next, current - 1)
+        if (counted < remaining) {
+          remaining -= counted
+          current = next
+          break
+        }
+        weeks = Math.floor(weeks / 2)
+      }
+      if (weeks > 0) {
+        continue
+      }
+
+      current += direction
+      if (this.isBusinessDay(current)) {
+        remaining--
+      }
+    }
+
+    return current
+  }
+
+  /**
+   * Move a day number by business days when no weekday is a workday, so only
+   * make-up workdays can be business days
+   * @throws {ValidationError} if there are not enough of them in the direction of travel
+   */
+  private addExtraWorkdays(start: number, days: number): number {
+    if (this.calendar.extraWorkdays.size === 0) {
+      throw new ValidationError('At least one workday is required', 'workdays', [])
+    }
+
+    const direction = days > 0 ? 1 : -1
+    const candidates = [...this.calendar.extraWorkdays]
+      .filter(day => (day - start) * direction > 0 && this.isBusinessDay(day))
+      .sort((a, b) => (a - b) * direction)
+    const target = candidates[Math.abs(days) - 1]
+    if (target === undefined) {
+      throw new ValidationError(
+        `Only ${candidates.length} business days available in that direction`,
+        'days',
+        days
+      )
+    }
+    return target
+  }
+}
+
+/**
+ * Check if a date is a business day: a workday or make-up workday without a
+ * full-day holiday, or for composite calendars the combination of the members
+ */
+export function isBusinessDate(
+  date: Dayjs,
+  rules: BusinessDaySource | undefined,
+  registry?: HolidayCalendarRegistry
+): boolean {
+  return createDayCalendar(rules, registry).weightOf(toDayNumber(date), false) > 0
+}
+
+/**
+ * Get the share of a working day worked on a date: 0 for non-business days,
+ * the workday weight of partial holidays and 1 otherwise
+ */
+export function getBusinessDayWeight(
+  date: Dayjs,
+  rules: BusinessDaySource | undefined,
+  registry?: HolidayCalendarRegistry
+): number {
+  return createDayCalendar(rules, registry).weightOf(toDayNumber(date), true)
+}
+
+/**
+ * Count business days between two dates, both inclusive (0 when end is before start)
+ */
+export function countBusinessDays(
+  start: Dayjs,
+  end: Dayjs,
+  rules: BusinessDaySource | undefined,
+  registry?: HolidayCalendarRegistry
+): number {
+  return new BusinessDayCounter(rules, registry).count(toDayNumber(start), toDayNumber(end))
+}
+
+/**
+ * Count business days between two dates, both inclusive, where partial
+ * holidays count as their workday weight
+ * @example countFractionalBusinessDays(dec1, dec31, rules) // 21.5 with a half-day Christmas Eve
+ */
+export function countFractionalBusinessDays(
+  start: Dayjs,
+  end: Dayjs,
+  rules: BusinessDaySource | undefined,
+  registry?: HolidayCalendarRegistry
+): number {
+  return new BusinessDayCounter(rules, registry).count(toDayNumber(start), toDayNumber(end), true)
+}
+
+/**
+ * Add business days to a date, keeping its time of day. Negative values move
+ * backwards. Runs in time proportional to the holidays in the span rather
+ * than the number of days.
+ */
+export function addBusinessDays(
+  date: Dayjs,
+  days: number,
+  rules: BusinessDaySource | undefined,
+  registry?: HolidayCalendarRegistry
+): Dayjs {
+  if (days === 0) {
+    return date
+  }
+
+  const start = toDayNumber(date)
+  const target = new BusinessDayCounter(rules, registry).add(start, days)
+  return date.add(target - start, 'day')
+}
+
+/**
+ * Count business days from one date to another, excluding the start date and
+ * including the end date; negative when `end` is before `start`
+ */
+export function businessDaysBetween(
+  start: Dayjs,
+  end: Dayjs,
+  rules: BusinessDaySource | undefined,
+  registry?: HolidayCalendarRegistry
+): number {
+  const from = toDayNumber(start)
+  const to = toDayNumber(end)
+  const counter = new BusinessDayCounter(rules, registry)
+  return from <= to ? counter.count(from + 1, to) : -counter.count(to + 1, from)
+}
+
+/**
+ * Fractional variant of businessDaysBetween: partial holidays count as their
+ * workday weight
+ */
+export function fractionalBusinessDaysBetween(
+  start: Dayjs,
+  end: Dayjs,
+  rules: BusinessDaySource | undefined,
+  registry?: HolidayCalendarRegistry
+): number {
+  const from = toDayNumber(start)
+  const to = toDayNumber(end)
+  const counter = new BusinessDayCounter(rules, registry)
+  return from <= to ? counter.count(from + 1, to, true) : -counter.count(to + 1, from, true)
+}
+
+/**
+ * Get the nth business day within a date range (both ends inclusive), counting
+ * from the start for positive `n` and from the end for negative `n` (-1 is the
+ * last business day). Returns null when the range has fewer business days.
+ * The result keeps the time of day of `start`.
+ * @throws {ValidationError} if n is not a non-zero integer
+ * @example getNthBusinessDay(march.startOf('month'), march.endOf('month'), 3, rules)
+ */
+export function getNthBusinessDay(
+  start: Dayjs,
+  end: Dayjs,
+  n: number,
+  rules: BusinessDaySource | undefined,
+  registry?: HolidayCalendarRegistry
+): Dayjs | null {
+  if (!Number.isInteger(n) || n === 0) {
+    throw new ValidationError('n must be a non-zero integer', 'n', n)
+  }
+
+  const from = toDayNumber(start)
+  const to = toDayNumber(end)
+  const counter = new BusinessDayCounter(rules, registry)
+  if (Math.abs(n) > counter.count(from, to)) {
+    return null
+  }
+
+  const target = n > 0 ? counter.add(from - 1, n) : counter.add(to + 1, n)
+  return start.add(target - from, 'day')
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest'
+import dayjs from 'dayjs'
+import utc from 'dayjs/plugin/utc'
+import timezone from 'dayjs/plugin/timezone'
+import {
+  isWithinBusinessHours,
+  addBusinessHours,
+  addBusinessMinutes,
+  businessMinutesBetween,
+  validateBusinessHours,
+  createHolidayCalendarRegistry,
+  DayjsFactory,
+  ValidationError
+} from '../src'
+import type { BusinessHoursSource } from '../src'
+
+dayjs.extend(utc)
+dayjs.extend(timezone)
+
+const TZ = 'Asia/Shanghai'
+
+// Mon-Fri 09:00-18:00 with a lunch break, Friday closes at 15:00
+const rules: BusinessHoursSource = {
+  workdays: [1, 2, 3, 4, 5],
+  holidays: [{ date: '2024-01-01', name: 'New Year', type: 'public' }],
+  businessHours: {
+    windows: [{ start: '09:00', end: '18:00' }],
+    weekdays: { 5: [{ start: '09:00', end: '15:00' }] },
+    breaks: [{ start: '12:00', end: '13:00' }],
+    timezone: TZ
+  }
+}
+
+const at = (wallClock: string): dayjs.Dayjs => dayjs.tz(wallClock, TZ)
+const local = (date: dayjs.Dayjs): string => date.tz(TZ).format('YYYY-MM-DD HH:mm')
+
+describe('isWithinBusinessHours', () => {
+  it('should respect windows, breaks and weekday overrides', () => {
+    expect(isWithinBusinessHours(at('2024-01-08 09:00'), rules)).toBe(true)
+    expect(isWithinBusinessHours(at('2024-01-08 08:59'), rules)).toBe(false)
+    expect(isWithinBusinessHours(at('2024-01-08 12:30'), rules)).toBe(false)
+    expect(isWithinBusinessHours(at('2024-01-08 18:00'), rules)).toBe(false)
+    expect(isWithinBusinessHours(at('2024-01-12 16:00'), rules)).toBe(false)
+  })
+
+  it('should be closed on weekends and holidays', () => {
+    expect(isWithinBusinessHours(at('2024-01-06 10:00'), rules)).toBe(false)
+    expect(isWithinBusinessHours(at('2024-01-01 10:00'), rules)).toBe(false)
+  })
+
+  it('should evaluate wall clock time in the configured timezone', () => {
+    // 02:00 UTC is 10:00 in Shanghai
+    expect(isWithinBusinessHours(dayjs.utc('2024-01-08T02:00:00Z'), rules)).toBe(true)
+    expect(isWithinBusinessHours(dayjs.utc('2024-01-08T10:30:00Z'), rules)).toBe(false)
+  })
+})
+
+describe('addBusinessHours', () => {
+  it('should add hours within a day, skipping the lunch break', () => {
+    expect(local(addBusinessHours(at('2024-01-08 10:00'), 3, rules))).toBe('2024-01-08 14:00')
+    expect(local(addBusinessHours(at('2024-01-08 09:00'), 8, rules))).toBe('2024-01-08 18:00')
+  })
+
+  it('should roll over nights, weekends and holidays', () => {
+    // Friday 14:00 + 8h: 1h on Friday, Monday is a holiday, 7h on Tuesday
+    expect(local(addBusinessHours(at('2023-12-29 14:00'), 8, rules))).toBe('2024-01-02 17:00')
+    expect(local(addBusinessHours(at('2024-01-08 17:00'), 2, rules))).toBe('2024-01-09 10:00')
+  })
+
+  it('should start counting at opening time when outside business hours', () => {
+    expect(local(addBusinessHours(at('2024-01-06 20:00'), 1, rules))).toBe('2024-01-08 10:00')
+    expect(local(addBusinessMinutes(at('2024-01-08 12:15'), 30, rules))).toBe('2024-01-08 13:30')
+  })
+
+  it('should move backwards for negative values', () => {
+    expect(local(addBusinessHours(at('2024-01-09 10:00'), -2, rules))).toBe('2024-01-08 17:00')
+    expect(local(addBusinessHours(at('2024-01-08 13:30'), -1, rules))).toBe('2024-01-08 11:30')
+  })
+
+  it('should return the same instant for zero', () => {
+    const start = at('2024-01-08 10:00')
+    expect(addBusinessHours(start, 0, rules).valueOf()).toBe(start.valueOf())
+  })
+
+  it('should throw when no business hours are configured', () => {
+    const closed: BusinessHoursSource = { workdays: [], holidays: [] }
+    expect(() => addBusinessHours(at('2024-01-08 10:00'), 1, closed)).toThrow(ValidationError)
+    expect(() => addBusinessHours(at('2024-01-08 10:00'), 1, { workdays: [1] })).toThrow(
+      'Business hours are not configured'
+    )
+  })
+})
+
+describe('businessMinutesBetween', () => {
+  it('should count only open minutes', () => {
+    expect(businessMinutesBetween(at('2024-01-08 09:00'), at('2024-01-08 18:00'), rules)).toBe(480)
+    expect(businessMinutesBetween(at('2024-01-08 11:30'), at('2024-01-08 13:30'), rules)).toBe(60)
+  })
+
+  it('should span weekends and holidays', () => {
+    // Fri 14:00-15:00 (60) + Tue 09:00-10:00 (60); Monday is a holiday
+    expect(businessMinutesBetween(at('2023-12-29 14:00'), at('2024-01-02 10:00'), rules)).toBe(120)
+  })
+
+  it('should be negative when the end is before the start', () => {
+    expect(businessMinutesBetween(at('2024-01-08 11:00'), at('2024-01-08 10:00'), rules)).toBe(-60)
+  })
+
+  it('should round trip with addBusinessMinutes', () => {
+    const start = at('2024-01-05 11:20')
+    const end = addBusinessMinutes(start, 1234, rules)
+    expect(businessMinutesBetween(start, end, rules)).toBe(1234)
+  })
+
+  it('should read registry calendars', () => {
+    const registry = createHolidayCalendarRegistry()
+    registry.set('cn', [{ date: '2024-01-09', name: 'Closure', type: 'company' }])
+    const withCalendar = { ...rules, calendarId: 'cn' }
+
+    expect(
+      businessMinutesBetween(at('2024-01-08 17:00'), at('2024-01-10 10:00'), withCalendar, registry)
+    ).toBe(120)
+  })
+})
+
+describe('validateBusinessHours', () => {
+  it('should accept valid business hours', () => {
+    expect(() => validateBusinessHours(rules.businessHours ?? { windows: [] })).not.toThrow()
+    expect(() =>
+      validateBusinessHours({ windows: [{ start: '00:00', end: '24:00' }] })
+    ).not.toThrow()
+  })
+
+  it('should reject malformed windows', () => {
+    expect(() => validateBusinessHours({ windows: [{ start: '9:00', end: '17:00' }] })).toThrow(
+      ValidationError
+    )
+    expect(() => validateBusinessHours({ windows: [{ start: '17:00', end: '09:00' }] })).toThrow(
+      ValidationError
+    )
+    expect(() => validateBusinessHours({ windows: [], weekdays: { 7: [] } })).toThrow(
+      ValidationError
+    )
+    expect(() => validateBusinessHours({ windows: [], timezone: 'Not a zone!' })).toThrow(
+      ValidationError
+    )
+  })
+})
+
+describe('factory business hours', () => {
+  it('should expose business hours methods on created instances', () => {
+    const factory = new DayjsFactory({
+      businessRules: {
+        workdays: [1, 2, 3, 4, 5],
+        holidays: [],
+        businessHours: { windows: [{ start: '09:00', end: '17:00' }], timezone: 'UTC' }
+      }
+    })
+    const instance = factory.create({ input: '2024-01-12T16:00:00Z' })
+
+    expect(instance.isWithinBusinessHours()).toBe(true)
+    expect(instance.addBusinessHours(2).toISOString()).toBe('2024-01-15T10:00:00.000Z')
+    expect(instance.businessMinutesBetween('2024-01-15T10:00:00Z')).toBe(120)
+  })
+
+  it('should throw without business hours', () => {
+    const instance = new DayjsFactory().create({ input: '2024-01-12T16:00:00Z' })
+    expect(() => instance.isWithinBusinessHours()).toThrow(ValidationError)
+    expect(() => instance.addBusinessHours(1)).toThrow('Business hours are not configured')
+    expect(() => instance.businessMinutesBetween('2024-01-15T10:00:00Z')).toThrow(ValidationError)
+  })
+})
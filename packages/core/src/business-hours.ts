@@ -0,0 +1,291 @@
+import dayjs from 'dayjs'
+import type { Dayjs } from 'dayjs'
+import utc from 'dayjs/plugin/utc'
+import timezone from 'dayjs/plugin/timezone'
+import type { BusinessHours, BusinessHoursWindow } from './types'
+import type { HolidayCalendarRegistry } from './registry'
+import { isBusinessDate } from './business-days'
+import type { BusinessDaySource } from './business-days'
+import { ValidationError } from './validator'
+
+const MINUTES_PER_DAY = 24 * 60
+const MS_PER_MINUTE = 60 * 1000
+const MS_PER_DAY = MINUTES_PER_DAY * MS_PER_MINUTE
+
+/**
+ * Give up after this many consecutive closed days (no opening hours configured)
+ */
+const MAX_CLOSED_DAYS = 366
+
+/**
+ * Rules consulted by business hours arithmetic
+ */
+export interface BusinessHoursSource extends BusinessDaySource {
+  /** Opening hours; the business hours functions throw a ValidationError without them */
+  readonly businessHours?: BusinessHours
+}
+
+/**
+ * Get the opening hours of the rules
+ * @throws {ValidationError} if no business hours are configured
+ */
+function getBusinessHours(rules: BusinessHoursSource): BusinessHours {
+  if (!rules.businessHours) {
+    throw new ValidationError('Business hours are not configured', 'businessHours', undefined)
+  }
+  return rules.businessHours
+}
+
+/**
+ * Open period as epoch milliseconds (end exclusive)
+ */
+interface OpenInterval {
+  start: number
+  end: number
+}
+
+/**
+ * Convert "HH:mm" to minutes since midnight
+ */
+function parseTimeOfDay(time: string): number {
+  const hours = parseInt(time.substring(0, 2), 10)
+  const minutes = parseInt(time.substring(3, 5), 10)
+  return hours * 60 + minutes
+}
+
+/**
+ * Remove breaks from opening windows, as [start, end) minute ranges
+ */
+function subtractBreaks(
+  windows: readonly BusinessHoursWindow[],
+  breaks: readonly BusinessHoursWindow[]
+): Array<[number, number]> {
+  let ranges: Array<[number, number]> = windows
+    .map((window): [number, number] => [parseTimeOfDay(window.start), parseTimeOfDay(window.end)])
+    .sort((a, b) => a[0] - b[0])
+
+  for (const pause of breaks) {
+    const breakStart = parseTimeOfDay(pause.start)
+    const breakEnd = parseTimeOfDay(pause.end)
+    ranges = ranges.flatMap(([start, end]): Array<[number, number]> => {
+      if (breakEnd <= start || breakStart >= end) {
+        return [[start, end]]
+      }
+      const parts: Array<[number, number]> = []
+      if (breakStart > start) {
+        parts.push([start, breakStart])
+      }
+      if (breakEnd < end) {
+        parts.push([breakEnd, end])
+      }
+      return parts
+    })
+  }
+
+  return ranges
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+function shiftDate(dateStr: string, days: number): string {
+  const time = new Date(`${dateStr}T00:00:00Z`).getTime()
+  return new Date(time + days * MS_PER_DAY).toISOString().substring(0, 10)
+}
+
+/**
+ * Extend dayjs with the utc/timezone plugins when a business hours timezone is
+ * used (dayjs installs each plugin once). Like DayjsFactory, only these
+ * stateless core plugins are installed globally, and never on import.
+ */
+function useTimezonePlugins(): void {
+  dayjs.extend(utc)
+  dayjs.extend(timezone)
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the business hours timezone
+ */
+function toLocalDate(time: number, hours: BusinessHours): string {
+  if (hours.timezone === undefined) {
+    return dayjs(time).format('YYYY-MM-DD')
+  }
+  useTimezonePlugins()
+  return dayjs(time).tz(hours.timezone).format('YYYY-MM-DD')
+}
+
+/**
+ * Instant of a wall clock time on a date in the business hours timezone
+ */
+function toInstant(dateStr: string, minutes: number, hours: BusinessHours): number {
+  // "24:00" is midnight of the next day
+  const date = minutes >= MINUTES_PER_DAY ? shiftDate(dateStr, 1) : dateStr
+  const time = minutes % MINUTES_PER_DAY
+  const wallClock = `${date}T${pad(Math.floor(time / 60))}:${pad(time % 60)}:00`
+  if (hours.timezone === undefined) {
+    return dayjs(wallClock).valueOf()
+  }
+  useTimezonePlugins()
+  return dayjs.tz(wallClock, hours.timezone).valueOf()
+}
+
+/**
+ * Get the open periods of a calendar date; empty for non-business days
+ */
+function getOpenIntervals(
+  dateStr: string,
+  rules: BusinessHoursSource,
+  registry: HolidayCalendarRegistry | undefined
+): OpenInterval[] {
+  const hours = getBusinessHours(rules)
+  const day = dayjs(dateStr)
+
+  if (!isBusinessDate(day, rules, registry)) {
+    return []
+  }
+
+  const windows = hours.weekdays?.[day.day()] ?? hours.windows
+  return subtractBreaks(windows, hours.breaks ?? []).map(([start, end]) => ({
+    start: toInstant(dateStr, start, hours),
+    end: toInstant(dateStr, end, hours)
+  }))
+}
+
+/**
+ * Walk the open periods day by day from a date, forwards or backwards
+ */
+function* walkOpenIntervals(
+  fromDate: string,
+  direction: 1 | -1,
+  rules: BusinessHoursSource,
+  registry: HolidayCalendarRegistry | undefined
+): Generator<OpenInterval> {
+  let dateStr = fromDate
+  let closedDays = 0
+
+  while (closedDays < MAX_CLOSED_DAYS) {
+    const intervals = getOpenIntervals(dateStr, rules, registry)
+    closedDays = intervals.length === 0 ? closedDays + 1 : 0
+    yield* direction === 1 ? intervals : intervals.reverse()
+    dateStr = shiftDate(dateStr, direction)
+  }
+
+  throw new ValidationError(
+    `No business hours within ${MAX_CLOSED_DAYS} days`,
+    'businessHours',
+    rules.businessHours
+  )
+}
+
+/**
+ * Check if an instant falls within business hours (on a business day)
+ */
+export function isWithinBusinessHours(
+  date: Dayjs,
+  rules: BusinessHoursSource,
+  registry?: HolidayCalendarRegistry
+): boolean {
+  const time = date.valueOf()
+  const hours = getBusinessHours(rules)
+  return getOpenIntervals(toLocalDate(time, hours), rules, registry).some(
+    interval => time >= interval.start && time < interval.end
+  )
+}
+
+/**
+ * Add business minutes to an instant, skipping closed hours, non-working days
+ * and holidays. Negative values move backwards. Time outside business hours
+ * does not count: adding 60 minutes on Friday evening lands on Monday 10:00
+ * with 09:00 - 17:00 hours.
+ */
+export function addBusinessMinutes(
+  date: Dayjs,
+  minutes: number,
+  rules: BusinessHoursSource,
+  registry?: HolidayCalendarRegistry
+): Dayjs {
+  if (minutes === 0) {
+    return date
+  }
+
+  const direction = minutes > 0 ? 1 : -1
+  const origin = date.valueOf()
+  const hours = getBusinessHours(rules)
+  let remaining = Math.round(Math.abs(minutes) * MS_PER_MINUTE)
+  let target = origin
+
+  for (const interval of walkOpenIntervals(
+    toLocalDate(origin, hours),
+    direction,
+    rules,
+    registry
+  )) {
+    if (direction === 1) {
+      if (interval.end <= origin) {
+        continue
+      }
+      const from = Math.max(interval.start, origin)
+      if (remaining <= interval.end - from) {
+        target = from + remaining
+        break
+      }
+      remaining -= interval.end - from
+    } else {
+      if (interval.start >= origin) {
+        continue
+      }
+      const to = Math.min(interval.end, origin)
+      if (remaining <= to - interval.start) {
+        target = to - remaining
+        break
+      }
+      remaining -= to - interval.start
+    }
+  }
+
+  return date.add(target - origin, 'millisecond')
+}
+
+/**
+ * Add business hours to an instant (see addBusinessMinutes)
+ * @example addBusinessHours(dayjs('2024-01-12 15:00'), 8, rules) // Monday 15:00
+ */
+export function addBusinessHours(
+  date: Dayjs,
+  hours: number,
+  rules: BusinessHoursSource,
+  registry?: HolidayCalendarRegistry
+): Dayjs {
+  return addBusinessMinutes(date, hours * 60, rules, registry)
+}
+
+/**
+ * Count whole business minutes between two instants (negative when `end` is
+ * before `start`)
+ */
+export function businessMinutesBetween(
+  start: Dayjs,
+  end: Dayjs,
+  rules: BusinessHoursSource,
+  registry?: HolidayCalendarRegistry
+): number {
+  const from = Math.min(start.valueOf(), end.valueOf())
+  const to = Math.max(start.valueOf(), end.valueOf())
+  const hours = getBusinessHours(rules)
+  const lastDate = toLocalDate(to, hours)
+
+  let total = 0
+  for (
+    let dateStr = toLocalDate(from, hours);
+    dateStr <= lastDate;
+    dateStr = shiftDate(dateStr, 1)
+  ) {
+    for (const interval of getOpenIntervals(dateStr, rules, registry)) {
+      total += Math.max(0, Math.min(interval.end, to) - Math.max(interval.start, from))
+    }
+  }
+
+  const minutes = Math.floor(total / MS_PER_MINUTE)
+  return start.valueOf() <= end.valueOf() ? minutes : -minutes
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import dayjs from 'dayjs'
+import {
+  createCompositeCalendar,
+  intersectCalendars,
+  unionCalendars,
+  createDayjsFactory,
+  createHolidayCalendarRegistry,
+  countBusinessDays,
+  addBusinessDays,
+  isBusinessDate,
+  getBusinessDayWeight,
+  validateBusinessRules,
+  ValidationError
+} from '../src'
+import type { BusinessRules } from '../src'
+
+const us: BusinessRules = {
+  workdays: [1, 2, 3, 4, 5],
+  holidays: [
+    { date: '2024-07-04', name: 'Independence Day', type: 'public' },
+    { date: '2024-12-25', name: 'Christmas Day', type: 'public' }
+  ]
+}
+const uk: BusinessRules = {
+  workdays: [1, 2, 3, 4, 5],
+  holidays: [
+    { date: '2024-08-26', name: 'Summer Bank Holiday', type: 'public' },
+    { date: '2024-12-24', name: 'Christmas Eve', type: 'company', workdayWeight: 0.5 },
+    { date: '2024-12-25', name: 'Christmas Day', type: 'public' },
+    { date: '2024-12-26', name: 'Boxing Day', type: 'public' }
+  ]
+}
+// Sunday to Thursday week
+const gulf: BusinessRules = { workdays: [0, 1, 2, 3, 4], holidays: [] }
+
+const isOpen = (rules: BusinessRules, date: string): boolean => isBusinessDate(dayjs(date), rules)
+
+describe('createCompositeCalendar', () => {
+  it('should require business days in every calendar for intersections', () => {
+    const settlement = intersectCalendars(us, uk)
+    expect(isOpen(settlement, '2024-07-04')).toBe(false)
+    expect(isOpen(settlement, '2024-08-26')).toBe(false)
+    expect(isOpen(settlement, '2024-08-27')).toBe(true)
+    expect(countBusinessDays(dayjs('2024-07-01'), dayjs('2024-08-31'), settlement)).toBe(43)
+    expect(addBusinessDays(dayjs('2024-12-23'), 2, settlement).format('YYYY-MM-DD')).toBe(
+      '2024-12-27'
+    )
+  })
+
+  it('should accept business days in any calendar for unions', () => {
+    const either = unionCalendars(us, uk)
+    expect(isOpen(either, '2024-07-04')).toBe(true)
+    expect(isOpen(either, '2024-12-25')).toBe(false)
+    expect(isOpen(either, '2024-12-26')).toBe(true)
+    expect(countBusinessDays(dayjs('2024-07-01'), dayjs('2024-08-31'), either)).toBe(45)
+  })
+
+  it('should combine weekday masks', () => {
+    expect(intersectCalendars(uk, gulf).workdays).toEqual([1, 2, 3, 4])
+    expect(unionCalendars(uk, gulf).workdays).toEqual([0, 1, 2, 3, 4, 5])
+    // A week from Sunday: 4 shared days, 6 days open somewhere
+    const sunday = dayjs('2024-09-01')
+    expect(countBusinessDays(sunday, sunday.add(6, 'day'), intersectCalendars(uk, gulf))).toBe(4)
+    expect(countBusinessDays(sunday, sunday.add(6, 'day'), unionCalendars(uk, gulf))).toBe(6)
+  })
+
+  it('should combine partial holiday weights', () => {
+    const christmasEve = dayjs('2024-12-24')
+    expect(getBusinessDayWeight(christmasEve, intersectCalendars(us, uk))).toBe(0.5)
+    expect(getBusinessDayWeight(christmasEve, unionCalendars(us, uk))).toBe(1)
+  })
+
+  it('should support nested composites and registry calendars', () => {
+    const registry = createHolidayCalendarRegistry()
+    const tokyo: BusinessRules = { workdays: [1, 2, 3, 4, 5], holidays: [], calendarId: 'jp' }
+    const calendar = intersectCalendars(unionCalendars(us, uk), tokyo)
+
+    expect(isBusinessDate(dayjs('2024-07-15'), calendar, registry)).toBe(true)
+    registry.set('jp', [{ date: '2024-07-15', name: '海の日', type: 'public' }])
+    expect(isBusinessDate(dayjs('2024-07-15'), calendar, registry)).toBe(false)
+  })
+
+  it('should work as factory business rules', () => {
+    const factory = createDayjsFactory({
+      businessRules: createCompositeCalendar('intersection', [us, uk])
+    })
+    expect(factory.create({ input: '2024-07-04' }).isBusinessDay()).toBe(false)
+    expect(factory.create({ input: '2024-07-05' }).isBusinessDay()).toBe(true)
+    expect(factory.getHolidays().map(holiday => holiday.name)).toContain('Boxing Day')
+  })
+
+  it('should validate calendars', () => {
+    expect(() => createCompositeCalendar('intersection', [])).toThrow(ValidationError)
+    expect(() => createCompositeCalendar('both' as never, [us])).toThrow(ValidationError)
+    expect(() => unionCalendars(us, { workdays: [7], holidays: [] })).toThrow(ValidationError)
+    expect(() => validateBusinessRules({ ...us, calendars: [] })).toThrow(ValidationError)
+  })
+
+  it('should not loop forever when intersections share no weekday', () => {
+    const weekend: BusinessRules = { workdays: [0, 6], holidays: [], extraWorkdays: ['2024-01-10'] }
+    const settlement = intersectCalendars(us, weekend)
+    expect(addBusinessDays(dayjs('2024-01-01'), 1, settlement).format('YYYY-MM-DD')).toBe(
+      '2024-01-10'
+    )
+    expect(() => addBusinessDays(dayjs('2024-01-01'), 2, settlement)).toThrow(ValidationError)
+    const closed = intersectCalendars(us, { workdays: [0, 6], holidays: [] })
+    expect(() => addBusinessDays(dayjs('2024-01-01'), 1, closed)).toThrow(ValidationError)
+  })
+})
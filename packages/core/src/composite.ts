@@ -0,0 +1,40 @@
+import type { BusinessRules, CalendarCombination, CompositeCalendar } from './types'
+import { validateCalendarCombination } from './validator'
+
+/**
+ * Combine several business calendars into one that can be used wherever
+ * BusinessRules or a business-day plugin configuration is accepted. Member
+ * calendars keep their own workdays, holidays, make-up workdays and registry
+ * calendars; composites can be nested. `workdays` of the result holds the
+ * combined weekday mask for reference only.
+ * @throws {ValidationError} if there are no calendars or a calendar is invalid
+ * @example createCompositeCalendar('intersection', [usRules, ukRules]) // US and UK settlement days
+ */
+export function createCompositeCalendar(
+  combine: CalendarCombination,
+  calendars: readonly BusinessRules[],
+  options: Omit<BusinessRules, 'workdays' | 'holidays' | 'calendars' | 'combine'> = {}
+): CompositeCalendar {
+  validateCalendarCombination(calendars, combine)
+
+  const workdays = [0, 1, 2, 3, 4, 5, 6].filter(day =>
+    combine === 'intersection'
+      ? calendars.every(calendar => calendar.workdays.includes(day))
+      : calendars.some(calendar => calendar.workdays.includes(day))
+  )
+  return { ...options, workdays, holidays: [], calendars: [...calendars], combine }
+}
+
+/**
+ * Calendar whose business days are business days in every calendar
+ */
+export function intersectCalendars(...calendars: BusinessRules[]): CompositeCalendar {
+  return createCompositeCalendar('intersection', calendars)
+}
+
+/**
+ * Calendar whose business days are business days in any calendar
+ */
+export function unionCalendars(...calendars: BusinessRules[]): CompositeCalendar {
+  return createCompositeCalendar('union', calendars)
+}
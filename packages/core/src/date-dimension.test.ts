@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import dayjs from 'dayjs'
+import {
+  generateDateDimension,
+  toDateDimensionCsv,
+  toDateDimensionJsonl,
+  ValidationError
+} from '../src'
+import type { BusinessRules, FiscalYearConfig } from '../src'
+
+const JULY: FiscalYearConfig = { startMonth: 7, yearLabel: 'span' }
+const rules: BusinessRules = {
+  workdays: [1, 2, 3, 4, 5],
+  holidays: [
+    { date: '2024-12-25', name: 'Christmas Day', type: 'public' },
+    { date: '2024-12-31', name: 'Year End, "Half Day"', type: 'company', workdayWeight: 0.5 }
+  ]
+}
+
+describe('generateDateDimension', () => {
+  it('should emit one row per day with calendar, fiscal and business columns', () => {
+    const rows = generateDateDimension(dayjs('2024-12-24'), dayjs('2024-12-31 18:00'), {
+      fiscalYear: JULY,
+      businessRules: rules
+    })
+
+    expect(rows).toHaveLength(8)
+    expect(rows[1]).toEqual({
+      dateKey: 20241225,
+      date: '2024-12-25',
+      year: 2024,
+      quarter: 4,
+      month: 12,
+      day: 25,
+      dayOfWeek: 3,
+      isoYear: 2024,
+      isoWeek: 52,
+      fiscalYear: 2024,
+      fiscalYearName: '2024-25',
+      fiscalQuarter: 2,
+      fiscalPeriod: 6,
+      fiscalWeek: 26,
+      isBusinessDay: false,
+      isHoliday: true,
+      holidayName: 'Christmas Day'
+    })
+    expect(rows.map(row => row.isBusinessDay)).toEqual([
+      true,
+      false,
+      true,
+      true,
+      false,
+      false,
+      true,
+      true
+    ])
+    // Partial holidays are still business days
+    expect(rows[7]?.isHoliday).toBe(true)
+  })
+
+  it('should number ISO weeks across year boundaries', () => {
+    const rows = generateDateDimension(dayjs('2020-12-31'), dayjs('2021-01-04'))
+    expect(rows.map(row => `${row.isoYear}-W${row.isoWeek}`)).toEqual([
+      '2020-W53',
+      '2020-W53',
+      '2020-W53',
+      '2020-W53',
+      '2021-W1'
+    ])
+    expect(rows[0]?.fiscalYear).toBe(2020)
+    expect(rows[1]?.fiscalQuarter).toBe(1)
+  })
+
+  it('should use 52/53-week fiscal calendars', () => {
+    const [row] = generateDateDimension(dayjs('2024-02-03'), dayjs('2024-02-03'), {
+      fiscalYear: { startMonth: 2, weekPattern: '4-5-4', yearEnd: 'nearest' }
+    })
+    expect(row?.fiscalYear).toBe(2024)
+    expect(row?.fiscalPeriod).toBe(12)
+    expect(row?.fiscalWeek).toBe(53)
+  })
+
+  it('should reject invalid input', () => {
+    expect(() => generateDateDimension(dayjs('2024-02-01'), dayjs('2024-01-31'))).toThrow(
+      ValidationError
+    )
+    expect(() =>
+      generateDateDimension(dayjs('2024-01-01'), dayjs('2024-01-31'), {
+        fiscalYear: { startMonth: 0 }
+      })
+    ).toThrow('Invalid fiscal startMonth')
+  })
+})
+
+describe('date dimension serialization', () => {
+  const rows = generateDateDimension(dayjs('2024-12-30'), dayjs('2024-12-31'), {
+    fiscalYear: JULY,
+    businessRules: rules
+  })
+
+  it('should serialize CSV with a header and quoted fields', () => {
+    const lines = toDateDimensionCsv(rows).split('\n')
+    expect(lines[0]).toBe(
+      'dateKey,date,year,quarter,month,day,dayOfWeek,isoYear,isoWeek,fiscalYear,fiscalYearName,' +
+        'fiscalQuarter,fiscalPeriod,fiscalWeek,isBusinessDay,isHoliday,holidayName'
+    )
+    expect(lines[1]).toBe(
+      '20241230,2024-12-30,2024,4,12,30,1,2025,1,2024,2024-25,2,6,27,true,false,'
+    )
+    expect(lines[2]?.endsWith(',true,true,"Year End, ""Half Day"""')).toBe(true)
+    expect(lines).toHaveLength(4)
+  })
+
+  it('should serialize JSON Lines', () => {
+    const lines = toDateDimensionJsonl(rows).trimEnd().split('\n')
+    expect(lines).toHaveLength(2)
+    expect(JSON.parse(lines[0] ?? '')).toEqual(rows[0])
+    expect(JSON.parse(lines[1] ?? '').holidayName).toBe('Year End, "Half Day"')
+  })
+})
@@ -0,0 +1,159 @@
+import type { Dayjs } from 'dayjs'
+import type { BusinessRules, FiscalYearConfig } from './types'
+import { DEFAULT_FISCAL_YEAR } from './types'
+import type { HolidayCalendarRegistry } from './registry'
+import { isBusinessDate, toDayNumber } from './business-days'
+import { resolveHolidays } from './holiday'
+import { getHolidayIndex } from './holiday-index'
+import {
+  getFiscalPeriod,
+  getFiscalQuarter,
+  getFiscalWeek,
+  getFiscalYear,
+  getFiscalYearName
+} from './fiscal'
+import { ValidationError, validateFiscalYearConfig } from './validator'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Options for generating a date dimension table
+ */
+export interface DateDimensionOptions {
+  /** Fiscal calendar of the fiscal columns (defaults to the calendar year) */
+  fiscalYear?: FiscalYearConfig
+  /** Rules of the business-day and holiday columns (defaults to Monday - Friday, no holidays) */
+  businessRules?: BusinessRules
+}
+
+/**
+ * One row of a date dimension table
+ */
+export interface DateDimensionRow {
+  /** Surrogate key in YYYYMMDD form, e.g. 20240115 */
+  dateKey: number
+  date: string
+  year: number
+  quarter: number
+  month: number
+  day: number
+  /** 0 = Sunday */
+  dayOfWeek: number
+  isoYear: number
+  isoWeek: number
+  fiscalYear: number
+  fiscalYearName: string
+  fiscalQuarter: number
+  fiscalPeriod: number
+  fiscalWeek: number
+  isBusinessDay: boolean
+  isHoliday: boolean
+  holidayName: string | null
+}
+
+const COLUMNS: ReadonlyArray<keyof DateDimensionRow> = [
+  'dateKey',
+  'date',
+  'year',
+  'quarter',
+  'month',
+  'day',
+  'dayOfWeek',
+  'isoYear',
+  'isoWeek',
+  'fiscalYear',
+  'fiscalYearName',
+  'fiscalQuarter',
+  'fiscalPeriod',
+  'fiscalWeek',
+  'isBusinessDay',
+  'isHoliday',
+  'holidayName'
+]
+
+/**
+ * ISO 8601 week-numbering year and week of a day number: weeks start on
+ * Monday and week 1 contains the year's first Thursday
+ */
+function getIsoWeek(day: number): { isoYear: number; isoWeek: number } {
+  const weekday = (((day + 3) % 7) + 7) % 7 // 0 = Monday
+  const thursday = day - weekday + 3
+  const isoYear = new Date(thursday * MS_PER_DAY).getUTCFullYear()
+  const firstDay = Date.UTC(isoYear, 0, 1) / MS_PER_DAY
+  return { isoYear, isoWeek: Math.floor((thursday - firstDay) / 7) + 1 }
+}
+
+/**
+ * Generate a date dimension table with one row per day from start to end
+ * (inclusive, time is ignored), combining calendar, ISO week, fiscal,
+ * business-day and holiday attributes
+ * @example generateDateDimension(dayjs('2024-01-01'), dayjs('2024-12-31'), { fiscalYear, businessRules })
+ */
+export function generateDateDimension(
+  start: Dayjs,
+  end: Dayjs,
+  options: DateDimensionOptions = {},
+  registry?: HolidayCalendarRegistry
+): DateDimensionRow[] {
+  const first = start.startOf('day')
+  const last = end.startOf('day')
+  if (last.isBefore(first)) {
+    throw new ValidationError('Date dimension end must not be before start', 'end', end)
+  }
+
+  const fiscalYear = options.fiscalYear ?? DEFAULT_FISCAL_YEAR
+  validateFiscalYearConfig(fiscalYear)
+  const rules = options.businessRules
+  const holidays = getHolidayIndex(resolveHolidays(rules, registry))
+
+  const rows: DateDimensionRow[] = []
+  for (let date = first; !date.isAfter(last); date = date.add(1, 'day')) {
+    const holiday = holidays.find(date)
+    rows.push({
+      dateKey: date.year() * 10000 + (date.month() + 1) * 100 + date.date(),
+      date: date.format('YYYY-MM-DD'),
+      year: date.year(),
+      quarter: Math.floor(date.month() / 3) + 1,
+      month: date.month() + 1,
+      day: date.date(),
+      dayOfWeek: date.day(),
+      ...getIsoWeek(toDayNumber(date)),
+      fiscalYear: getFiscalYear(date, fiscalYear),
+      fiscalYearName: getFiscalYearName(date, fiscalYear),
+      fiscalQuarter: getFiscalQuarter(date, fiscalYear),
+      fiscalPeriod: getFiscalPeriod(date, fiscalYear),
+      fiscalWeek: getFiscalWeek(date, fiscalYear),
+      isBusinessDay: isBusinessDate(date, rules, registry),
+      isHoliday: holiday !== null,
+      holidayName: holiday?.name ?? null
+    })
+  }
+  return rows
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break (RFC 4180)
+ */
+function toCsvField(value: DateDimensionRow[keyof DateDimensionRow]): string {
+  const text = value === null ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serialize date dimension rows as CSV with a header line; holiday names of
+ * non-holidays are empty fields
+ */
+export function toDateDimensionCsv(rows: readonly DateDimensionRow[]): string {
+  const lines = [COLUMNS.join(',')]
+  for (const row of rows) {
+    lines.push(COLUMNS.map(column => toCsvField(row[column])).join(','))
+  }
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Serialize date dimension rows as JSON Lines, one object per line
+ */
+export function toDateDimensionJsonl(rows: readonly DateDimensionRow[]): string {
+  return rows.map(row => JSON.stringify(row) + '\n').join('')
+}
@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest'
+import dayjs from 'dayjs'
 import {
   DayjsFactory,
   createDayjsFactory,
@@ -145,6 +146,18 @@ describe('DayjsFactory', () => {
       const holiday = factoryWithHoliday.create({ input: '2024-01-15' })
       expect(holiday.isBusinessDay()).toBe(false)
     })
+
+    it('should treat make-up workdays as business days', () => {
+      const factoryWithMakeUp = new DayjsFactory({
+        businessRules: {
+          workdays: [1, 2, 3, 4, 5],
+          holidays: [],
+          extraWorkdays: ['2024-02-04']
+        }
+      })
+      expect(factoryWithMakeUp.create({ input: '2024-02-04' }).isBusinessDay()).toBe(true)
+      expect(factoryWithMakeUp.create({ input: '2024-02-03' }).isBusinessDay()).toBe(false)
+    })
   })
 
   describe('Instance isolation', () => {
@@ -199,6 +212,66 @@ describe('DayjsFactory', () => {
     })
   })
 
+  describe('Plugin isolation', () => {
+    const createLabelPlugin = (label: string): any =>
+      function labelPlugin(_o: any, c: any, _p: any) {
+        c.prototype.tenantLabel = function () {
+          return label
+        }
+      }
+
+    it('should not leak plugins into bare dayjs', () => {
+      const factory = new DayjsFactory({ plugins: [createLabelPlugin('tenant-a')] })
+      const instance = factory.create({ input: '2024-01-15' }) as any
+
+      expect(instance.tenantLabel()).toBe('tenant-a')
+      expect((dayjs('2024-01-15') as any).tenantLabel).toBeUndefined()
+    })
+
+    it('should keep plugins of different factories apart', () => {
+      const factoryA = new DayjsFactory({ plugins: [createLabelPlugin('tenant-a')] })
+      const factoryB = new DayjsFactory()
+      factoryB.use(createLabelPlugin('tenant-b'))
+
+      const a = factoryA.create({ input: '2024-01-15' }) as any
+      const b = factoryB.create({ input: '2024-01-15' }) as any
+
+      expect(a.tenantLabel()).toBe('tenant-a')
+      expect(b.tenantLabel()).toBe('tenant-b')
+      expect(factoryA.owns(a)).toBe(true)
+      expect(factoryA.owns(b)).toBe(false)
+    })
+
+    it('should keep plugin methods while chaining', () => {
+      const factory = new DayjsFactory({
+        timezone: 'Asia/Shanghai',
+        plugins: [createLabelPlugin('tenant-a')]
+      })
+      const chained = factory
+        .create({ input: '2024-01-15' })
+        .add(1, 'day')
+        .startOf('month')
+        .utc() as any
+
+      expect(chained.tenantLabel()).toBe('tenant-a')
+      expect(factory.owns(chained)).toBe(true)
+      expect((factory.utc('2024-01-15') as any).tenantLabel()).toBe('tenant-a')
+    })
+
+    it('should pass a scoped factory function to plugins', () => {
+      let created: any
+      const factoryPlugin = function factoryPlugin(_o: any, _c: any, d: any) {
+        d.tenantStatic = true
+        created = d('2024-01-15')
+      } as any
+
+      const factory = new DayjsFactory({ plugins: [factoryPlugin] })
+
+      expect(factory.owns(created)).toBe(true)
+      expect((dayjs as any).tenantStatic).toBeUndefined()
+    })
+  })
+
   describe('Plugin management', () => {
     it('should prevent duplicate plugin registration', () => {
       // Create a mock plugin function with proper name
@@ -290,6 +363,39 @@ describe('DayjsFactory', () => {
       expect(Object.isFrozen(config1)).toBe(true)
     })
   })
+  describe('nth business day helpers', () => {
+    const factory = new DayjsFactory({
+      businessRules: {
+        workdays: [1, 2, 3, 4, 5],
+        holidays: [{ date: '2024-03-29', name: 'Good Friday', type: 'public' }],
+        // UK tax year: April 6
+        fiscalYearStart: { month: 4, day: 6 }
+      }
+    })
+
+    it('should find business days of the month', () => {
+      expect(factory.nthBusinessDayOfMonth('2024-03-15', 3)?.format('YYYY-MM-DD')).toBe(
+        '2024-03-05'
+      )
+      expect(factory.lastBusinessDayOfMonth('2024-03-15')?.format('YYYY-MM-DD')).toBe('2024-03-28')
+      expect(factory.lastBusinessDayOfMonth('2024-03-15')?.isBusinessDay()).toBe(true)
+      expect(factory.nthBusinessDayOfMonth('2024-03-15', 25)).toBeNull()
+    })
+
+    it('should find business days of the fiscal quarter', () => {
+      // Q1 of the tax year: 2024-04-06 (Saturday) to 2024-07-05
+      expect(factory.nthBusinessDayOfFiscalQuarter('2024-05-15', 1)?.format('YYYY-MM-DD')).toBe(
+        '2024-04-08'
+      )
+      expect(factory.nthBusinessDayOfFiscalQuarter('2024-05-15', -1)?.format('YYYY-MM-DD')).toBe(
+        '2024-07-05'
+      )
+      // April 1-5 still belong to Q4 of the previous tax year
+      expect(factory.nthBusinessDayOfFiscalQuarter('2024-04-03', -1)?.format('YYYY-MM-DD')).toBe(
+        '2024-04-05'
+      )
+    })
+  })
 })
 
 describe('createDayjsFactory', () => {
@@ -8,7 +8,8 @@ import type {
   BusinessDayjs,
   BusinessDate,
   ISO8601String,
-  BusinessRules
+  BusinessRules,
+  Holiday
 } from './types'
 import {
   DEFAULT_CONFIG,
@@ -21,6 +22,11 @@ import {
   validateBusinessRules,
   ValidationError
 } from './validator'
+import { DayjsScope } from './scope'
+import { resolveHolidays } from './holiday'
+import { getNthBusinessDay, isBusinessDate } from './business-days'
+import { addBusinessHours, businessMinutesBetween, isWithinBusinessHours } from './business-hours'
+import { getFiscalQuarterEnd, getFiscalQuarterStart } from './fiscal'
 
 /**
  * Generate unique instance ID
@@ -29,6 +35,23 @@ function generateInstanceId(): string {
   return `djb_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 9)}`
 }
 
+/**
+ * BusinessDayjs methods that require `businessRules.businessHours`
+ */
+const BUSINESS_HOURS_METHODS = [
+  'isWithinBusinessHours',
+  'addBusinessHours',
+  'businessMinutesBetween'
+] as const
+
+/**
+ * Stand-in for the business hours methods of instances without business hours
+ * @throws {ValidationError} always
+ */
+function businessHoursNotConfigured(): never {
+  throw new ValidationError('Business hours are not configured', 'businessHours', undefined)
+}
+
 /**
  * Plugin registry for managing plugin instances per factory
  */
@@ -127,6 +150,7 @@ class ConfigManager {
       locale: config.locale ?? DEFAULT_CONFIG.locale,
       timezone: config.timezone ?? DEFAULT_CONFIG.timezone,
       businessRules: mergedRules,
+      holidayRegistry: config.holidayRegistry,
       plugins: config.plugins ? [...config.plugins] : DEFAULT_CONFIG.plugins ? [...DEFAULT_CONFIG.plugins] : [],
       strict: config.strict ?? DEFAULT_CONFIG.strict,
       debugMode: config.debugMode ?? DEFAULT_CONFIG.debugMode
@@ -143,7 +167,12 @@ class ConfigManager {
     return {
       workdays: custom.workdays ?? defaults.workdays,
       holidays: custom.holidays ? deepClone(custom.holidays) : defaults.holidays,
-      fiscalYearStart: custom.fiscalYearStart ?? defaults.fiscalYearStart
+      extraWorkdays: custom.extraWorkdays ?? defaults.extraWorkdays,
+      businessHours: custom.businessHours ?? defaults.businessHours,
+      fiscalYearStart: custom.fiscalYearStart ?? defaults.fiscalYearStart,
+      calendarId: custom.calendarId ?? defaults.calendarId,
+      calendars: custom.calendars ?? defaults.calendars,
+      combine: custom.combine ?? defaults.combine
     }
   }
 
@@ -178,12 +207,14 @@ class DebugLogger {
 /**
  * DayjsFactory - Creates isolated dayjs instances with business configuration
  *
- * Note: While dayjs plugins modify the global prototype, each factory instance
- * maintains its own plugin registry to prevent duplicate registrations and
- * provides isolated configuration and state management.
+ * Each factory owns a DayjsScope: custom plugins are installed on a scoped
+ * Dayjs subclass instead of the global prototype, so plugins registered on one
+ * factory never leak into another factory or into bare `dayjs()` instances.
+ * Only the core utc/timezone plugins are extended globally.
  */
 export class DayjsFactory {
   private readonly registry: PluginRegistry
+  private readonly scope: DayjsScope
   private readonly configManager: ConfigManager
   private readonly logger: DebugLogger
   private readonly instanceId: string
@@ -191,6 +222,7 @@ export class DayjsFactory {
   constructor(config: Partial<DayjsBusinessConfig> = {}) {
     this.instanceId = generateInstanceId()
     this.registry = new PluginRegistry()
+    this.scope = new DayjsScope()
     this.configManager = new ConfigManager(config)
     this.logger = new DebugLogger(config.debugMode ?? false)
 
@@ -203,15 +235,16 @@ export class DayjsFactory {
       return
     }
 
-    // Register core plugins
+    // Register core plugins (stateless, shared by every scope)
     dayjs.extend(utc)
     dayjs.extend(timezone)
 
-    // Register custom plugins
+    // Register custom plugins into this factory's scope only
     if (config.plugins) {
       for (const plugin of config.plugins) {
-        this.registry.register(plugin)
-        dayjs.extend(plugin)
+        if (this.registry.register(plugin)) {
+          this.scope.install(plugin)
+        }
       }
     }
 
@@ -247,14 +280,8 @@ export class DayjsFactory {
       validateDateInput(options.input)
     }
 
-    // Create base dayjs instance
-    let instance: Dayjs
-
-    if (options.input !== undefined) {
-      instance = dayjs(options.input)
-    } else {
-      instance = dayjs()
-    }
+    // Create scoped dayjs instance
+    let instance: Dayjs = this.scope.create(options.input)
 
     // Apply timezone if specified
     if (mergedConfig.timezone && mergedConfig.timezone !== 'UTC') {
@@ -308,31 +335,41 @@ export class DayjsFactory {
     ;(businessInstance as unknown as Record<string, unknown>).isBusinessDay = function (
       this: BusinessDayjs
     ): boolean {
-      const dayOfWeek = this.day()
-      const workdays = config.businessRules?.workdays ?? DEFAULT_BUSINESS_RULES.workdays
-      const holidays = config.businessRules?.holidays ?? []
+      // Workdays, make-up workdays and holidays (registry calendars are read on every call)
+      return isBusinessDate(this, config.businessRules, config.holidayRegistry)
+    }
 
-      // Check if it's a workday
-      if (!workdays.includes(dayOfWeek)) {
-        return false
+    // Add business hours methods when opening hours are configured. Instances
+    // without them keep the business-day plugin's methods when it is installed
+    // and otherwise throw
+    const rules = config.businessRules
+    if (!rules?.businessHours) {
+      const methods = businessInstance as unknown as Record<string, unknown>
+      for (const name of BUSINESS_HOURS_METHODS) {
+        if (typeof methods[name] !== 'function') {
+          methods[name] = businessHoursNotConfigured
+        }
+      }
+    } else {
+      ;(businessInstance as unknown as Record<string, unknown>).isWithinBusinessHours = function (
+        this: BusinessDayjs
+      ): boolean {
+        return isWithinBusinessHours(this, rules, config.holidayRegistry)
       }
 
-      // Check if it's a holiday
-      const dateStr = this.format('YYYY-MM-DD')
-      for (const holiday of holidays) {
-        if (holiday.date === dateStr) {
-          return false
-        }
-        // Handle recurring holidays (same month and day each year)
-        if (holiday.recurring) {
-          const holidayDate = dayjs(holiday.date)
-          if (this.month() === holidayDate.month() && this.date() === holidayDate.date()) {
-            return false
-          }
-        }
+      ;(businessInstance as unknown as Record<string, unknown>).addBusinessHours = function (
+        this: BusinessDayjs,
+        hours: number
+      ): Dayjs {
+        return addBusinessHours(this, hours, rules, config.holidayRegistry)
       }
 
-      return true
+      ;(businessInstance as unknown as Record<string, unknown>).businessMinutesBetween = function (
+        this: BusinessDayjs,
+        other: ConfigType
+      ): number {
+        return businessMinutesBetween(this, dayjs(other), rules, config.holidayRegistry)
+      }
     }
 
     return businessInstance
@@ -349,7 +386,7 @@ export class DayjsFactory {
     }
 
     this.registry.register(plugin)
-    dayjs.extend(plugin)
+    this.scope.install(plugin)
     this.logger.log('Plugin registered', { plugin: plugin.name || 'anonymous' })
     return this
   }
@@ -381,6 +418,56 @@ export class DayjsFactory {
     return this.configManager.getConfig()
   }
 
+  /**
+   * Get the nth business day of the month of a date (negative n counts from
+   * the end), or null if the month has fewer business days
+   * @example factory.nthBusinessDayOfMonth('2024-03-15', 3) // 2024-03-05
+   */
+  nthBusinessDayOfMonth(input: ConfigType, n: number): BusinessDayjs | null {
+    const date = this.create({ input })
+    return this.findNthBusinessDay(date.startOf('month'), date.endOf('month'), n)
+  }
+
+  /**
+   * Get the last business day of the month of a date
+   */
+  lastBusinessDayOfMonth(input: ConfigType): BusinessDayjs | null {
+    return this.nthBusinessDayOfMonth(input, -1)
+  }
+
+  /**
+   * Get the nth business day of the fiscal quarter of a date (negative n
+   * counts from the end). Fiscal quarters start at `businessRules.fiscalYearStart`
+   * (January 1 when unset).
+   */
+  nthBusinessDayOfFiscalQuarter(input: ConfigType, n: number): BusinessDayjs | null {
+    const date = this.create({ input })
+    const fiscalYearStart = this.configManager.getConfig().businessRules?.fiscalYearStart
+    const fiscalYear = {
+      startMonth: fiscalYearStart?.month ?? 1,
+      startDay: fiscalYearStart?.day ?? 1
+    }
+    return this.findNthBusinessDay(
+      getFiscalQuarterStart(date, fiscalYear),
+      getFiscalQuarterEnd(date, fiscalYear),
+      n
+    )
+  }
+
+  private findNthBusinessDay(start: Dayjs, end: Dayjs, n: number): BusinessDayjs | null {
+    const config = this.configManager.getConfig()
+    const date = getNthBusinessDay(start, end, n, config.businessRules, config.holidayRegistry)
+    return date ? this.extendWithBusinessMethods(date, config) : null
+  }
+
+  /**
+   * Get the effective holidays, including the current registry calendar
+   */
+  getHolidays(): readonly Holiday[] {
+    const config = this.configManager.getConfig()
+    return resolveHolidays(config.businessRules, config.holidayRegistry)
+  }
+
   /**
    * Get instance ID
    */
@@ -409,6 +496,13 @@ export class DayjsFactory {
     return this.registry.has(plugin)
   }
 
+  /**
+   * Check if an instance was created by this factory (and carries its plugins)
+   */
+  owns(instance: Dayjs): boolean {
+    return this.scope.owns(instance)
+  }
+
   /**
    * Parse date string with validation
    */
@@ -430,7 +524,7 @@ export class DayjsFactory {
    * Create UTC date
    */
   utc(input?: ConfigType): BusinessDayjs {
-    const instance = input !== undefined ? dayjs.utc(input) : dayjs.utc()
+    const instance = this.scope.adopt(input !== undefined ? dayjs.utc(input) : dayjs.utc())
     return this.extendWithBusinessMethods(instance, {
       ...this.configManager.getConfig(),
       timezone: 'UTC'
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import dayjs from 'dayjs'
+import type { Dayjs } from 'dayjs'
+import { FiscalCalendar, createFiscalCalendar, ValidationError } from '../src'
+
+const ymd = (date: Dayjs): string => date.format('YYYY-MM-DD')
+
+describe('FiscalCalendar', () => {
+  const apple = createFiscalCalendar({ startMonth: 10 })
+  const microsoft = createFiscalCalendar({ startMonth: 7 })
+  const japan = createFiscalCalendar({ startMonth: 4, yearLabel: 'startYear' })
+
+  it('should keep several fiscal years side by side', () => {
+    const date = dayjs('2024-08-15')
+    expect([apple, microsoft, japan].map(calendar => calendar.fiscalYearOf(date))).toEqual([
+      2024, 2025, 2024
+    ])
+    expect([apple, microsoft, japan].map(calendar => calendar.quarterOf(date))).toEqual([4, 1, 2])
+    expect(ymd(apple.endOfQuarter(date))).toBe('2024-09-30')
+    expect(ymd(microsoft.startOfYear(date))).toBe('2024-07-01')
+    expect(ymd(japan.endOfYear(date))).toBe('2025-03-31')
+  })
+
+  it('should default to the calendar year', () => {
+    const calendar = new FiscalCalendar()
+    const date = dayjs('2024-05-20')
+    expect(calendar.fiscalYearOf(date)).toBe(2024)
+    expect(calendar.periodOf(date)).toBe(5)
+    expect(calendar.config).toEqual({ startMonth: 1, startDay: 1 })
+    expect(Object.isFrozen(calendar.config)).toBe(true)
+  })
+
+  it('should compute periods and weeks', () => {
+    const nrf = createFiscalCalendar({ startMonth: 2, weekPattern: '4-5-4', yearEnd: 'nearest' })
+    const date = dayjs('2024-02-03')
+    expect(nrf.weeksInYearOf(date)).toBe(53)
+    expect(nrf.weekOf(date)).toBe(53)
+    expect(nrf.periodInfoOf(date).period).toBe(12)
+    expect(ymd(nrf.startOfPeriod(date))).toBe('2023-12-31')
+    expect(ymd(nrf.endOfPeriod(date))).toBe('2024-02-03')
+  })
+
+  it('should move and compare by quarters and periods', () => {
+    const date = dayjs('2024-08-15')
+    expect(ymd(microsoft.addQuarters(date, 2))).toBe('2025-02-15')
+    expect(ymd(microsoft.subtractPeriods(date, 3))).toBe('2024-05-15')
+    expect(microsoft.quartersBetween(date, dayjs('2025-07-01'))).toBe(4)
+    expect(microsoft.isSameQuarter(date, dayjs('2024-09-30'))).toBe(true)
+    expect(apple.isSameQuarter(date, dayjs('2024-10-01'))).toBe(false)
+    expect(apple.isSameYear(dayjs('2023-10-01'), dayjs('2024-09-30'))).toBe(true)
+  })
+
+  it('should list the quarters of a fiscal year', () => {
+    const quarters = apple.quartersOfYear(dayjs('2024-02-01'))
+    expect(quarters.map(quarter => ymd(quarter.startDate))).toEqual([
+      '2023-10-01',
+      '2024-01-01',
+      '2024-04-01',
+      '2024-07-01'
+    ])
+    expect(quarters.every(quarter => quarter.year === 2024)).toBe(true)
+  })
+
+  it('should reject invalid configurations', () => {
+    expect(() => createFiscalCalendar({ startMonth: 13 })).toThrow(ValidationError)
+  })
+})
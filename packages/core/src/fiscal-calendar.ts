@@ -0,0 +1,198 @@
+import type { Dayjs } from 'dayjs'
+import type { DateRange, FinancialPeriod, FinancialQuarter, FiscalYearConfig } from './types'
+import { DEFAULT_FISCAL_YEAR } from './types'
+import {
+  addFiscalPeriods,
+  addFiscalQuarters,
+  fiscalQuartersBetween,
+  getFiscalPeriod,
+  getFiscalPeriodEnd,
+  getFiscalPeriodInfo,
+  getFiscalPeriodStart,
+  getFiscalQuarter,
+  getFiscalQuarterEnd,
+  getFiscalQuarterInfo,
+  getFiscalQuarterStart,
+  getFiscalWeek,
+  getFiscalWeeksInYear,
+  getFiscalYear,
+  getFiscalYearEnd,
+  getFiscalYearName,
+  getFiscalYearStart,
+  iterateFiscalQuarters,
+  iterateFiscalYears
+} from './fiscal'
+import { validateFiscalYearConfig } from './validator'
+
+/**
+ * FiscalCalendar - Fiscal year arithmetic for one fiscal year definition
+ *
+ * Unlike the financial-quarter plugin, which installs a single configuration
+ * on the Dayjs prototype, calendars are plain objects: create one per legal
+ * entity to work with several fiscal years in the same process. Results are
+ * instances of the class of the date passed in.
+ *
+ * @example
+ * const apple = createFiscalCalendar({ startMonth: 10 })
+ * const microsoft = createFiscalCalendar({ startMonth: 7 })
+ * apple.quarterOf(date)     // 1
+ * microsoft.quarterOf(date) // 2
+ */
+export class FiscalCalendar {
+  readonly config: Readonly<FiscalYearConfig>
+
+  /**
+   * @throws {ValidationError} if the configuration is invalid
+   */
+  constructor(config: FiscalYearConfig = DEFAULT_FISCAL_YEAR) {
+    const normalized: FiscalYearConfig = {
+      ...config,
+      startDay: config.startDay ?? DEFAULT_FISCAL_YEAR.startDay
+    }
+    validateFiscalYearConfig(normalized)
+    this.config = Object.freeze(normalized)
+  }
+
+  /**
+   * Get the fiscal year number of a date (see `yearLabel`)
+   */
+  fiscalYearOf(date: Dayjs): number {
+    return getFiscalYear(date, this.config)
+  }
+
+  /**
+   * Get the fiscal year name of a date, e.g. "2024" or "2024-25"
+   */
+  fiscalYearNameOf(date: Dayjs): string {
+    return getFiscalYearName(date, this.config)
+  }
+
+  quarterOf(date: Dayjs): 1 | 2 | 3 | 4 {
+    return getFiscalQuarter(date, this.config)
+  }
+
+  quarterInfoOf(date: Dayjs): FinancialQuarter {
+    return getFiscalQuarterInfo(date, this.config)
+  }
+
+  /**
+   * Get the fiscal period (fiscal month) of a date, 1-based
+   */
+  periodOf(date: Dayjs): number {
+    return getFiscalPeriod(date, this.config)
+  }
+
+  periodInfoOf(date: Dayjs): FinancialPeriod {
+    return getFiscalPeriodInfo(date, this.config)
+  }
+
+  /**
+   * Get the week of the fiscal year of a date, 1-based
+   */
+  weekOf(date: Dayjs): number {
+    return getFiscalWeek(date, this.config)
+  }
+
+  weeksInYearOf(date: Dayjs): number {
+    return getFiscalWeeksInYear(date, this.config)
+  }
+
+  startOfYear(date: Dayjs): Dayjs {
+    return getFiscalYearStart(date, this.config)
+  }
+
+  endOfYear(date: Dayjs): Dayjs {
+    return getFiscalYearEnd(date, this.config)
+  }
+
+  startOfQuarter(date: Dayjs): Dayjs {
+    return getFiscalQuarterStart(date, this.config)
+  }
+
+  endOfQuarter(date: Dayjs): Dayjs {
+    return getFiscalQuarterEnd(date, this.config)
+  }
+
+  startOfPeriod(date: Dayjs): Dayjs {
+    return getFiscalPeriodStart(date, this.config)
+  }
+
+  endOfPeriod(date: Dayjs): Dayjs {
+    return getFiscalPeriodEnd(date, this.config)
+  }
+
+  /**
+   * Get the four quarters of the fiscal year containing a date
+   */
+  quartersOfYear(date: Dayjs): FinancialQuarter[] {
+    const quarters: FinancialQuarter[] = []
+    let quarterStart = this.startOfYear(date)
+
+    for (let i = 0; i < 4; i++) {
+      const info = this.quarterInfoOf(quarterStart)
+      quarters.push(info)
+      quarterStart = info.endDate.add(1, 'day').startOf('day')
+    }
+
+    return quarters
+  }
+
+  /**
+   * Enumerate the fiscal quarters overlapping start..end as whole quarter ranges
+   * @example [...calendar.iterateQuarters(start, end)].map(range => range.label) // ['Q1 FY2025', ...]
+   */
+  iterateQuarters(start: Dayjs, end: Dayjs): Generator<DateRange> {
+    return iterateFiscalQuarters(start, end, this.config)
+  }
+
+  /**
+   * Enumerate the fiscal years overlapping start..end as whole year ranges
+   */
+  iterateYears(start: Dayjs, end: Dayjs): Generator<DateRange> {
+    return iterateFiscalYears(start, end, this.config)
+  }
+
+  /**
+   * Move a date by whole fiscal quarters, keeping its offset within the quarter
+   */
+  addQuarters(date: Dayjs, quarters: number): Dayjs {
+    return addFiscalQuarters(date, quarters, this.config)
+  }
+
+  subtractQuarters(date: Dayjs, quarters: number): Dayjs {
+    return this.addQuarters(date, -quarters)
+  }
+
+  /**
+   * Move a date by whole fiscal periods, keeping its offset within the period
+   */
+  addPeriods(date: Dayjs, periods: number): Dayjs {
+    return addFiscalPeriods(date, periods, this.config)
+  }
+
+  subtractPeriods(date: Dayjs, periods: number): Dayjs {
+    return this.addPeriods(date, -periods)
+  }
+
+  /**
+   * Count fiscal quarters from one date to another (negative when `to` is earlier)
+   */
+  quartersBetween(from: Dayjs, to: Dayjs): number {
+    return fiscalQuartersBetween(from, to, this.config)
+  }
+
+  isSameYear(a: Dayjs, b: Dayjs): boolean {
+    return this.fiscalYearOf(a) === this.fiscalYearOf(b)
+  }
+
+  isSameQuarter(a: Dayjs, b: Dayjs): boolean {
+    return this.quartersBetween(a, b) === 0
+  }
+}
+
+/**
+ * Create a fiscal calendar (defaults to the calendar year)
+ */
+export function createFiscalCalendar(config?: FiscalYearConfig): FiscalCalendar {
+  return new FiscalCalendar(config)
+}
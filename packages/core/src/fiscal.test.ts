@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import dayjs from 'dayjs'
+import type { Dayjs } from 'dayjs'
+import {
+  getFiscalYear,
+  getFiscalYearName,
+  getFiscalQuarter,
+  getFiscalQuarterStart,
+  getFiscalQuarterEnd,
+  getFiscalYearStart,
+  getFiscalPeriodInfo,
+  addFiscalQuarters,
+  fiscalQuartersBetween,
+  iterateFiscalQuarters,
+  iterateFiscalYears,
+  validateFiscalYearConfig,
+  ValidationError
+} from '../src'
+import type { FiscalYearConfig } from '../src'
+
+const JULY: FiscalYearConfig = { startMonth: 7, startDay: 1 }
+const NRF: FiscalYearConfig = {
+  startMonth: 2,
+  weekPattern: '4-5-4',
+  weekEndsOn: 6,
+  yearEnd: 'nearest'
+}
+const ymd = (date: Dayjs): string => date.format('YYYY-MM-DD')
+
+describe('fiscal year functions', () => {
+  it('should compute fiscal years and quarters', () => {
+    const date = dayjs('2024-08-15')
+    expect(getFiscalYear(date, JULY)).toBe(2025)
+    expect(getFiscalYearName(date, { ...JULY, yearLabel: 'span' })).toBe('2024-25')
+    expect(getFiscalQuarter(date, JULY)).toBe(1)
+    expect(ymd(getFiscalYearStart(date, JULY))).toBe('2024-07-01')
+    expect(ymd(getFiscalQuarterEnd(date, JULY))).toBe('2024-09-30')
+  })
+
+  it('should compute week-based boundaries', () => {
+    const date = dayjs('2023-06-15')
+    expect(getFiscalYear(date, NRF)).toBe(2024)
+    expect(ymd(getFiscalQuarterStart(date, NRF))).toBe('2023-04-30')
+    const info = getFiscalPeriodInfo(date, NRF)
+    expect(info.period).toBe(5)
+    expect(ymd(info.startDate)).toBe('2023-05-28')
+    expect(ymd(info.endDate)).toBe('2023-07-01')
+  })
+
+  it('should move and count quarters', () => {
+    expect(ymd(addFiscalQuarters(dayjs('2023-12-31'), 1, NRF))).toBe('2024-04-07')
+    expect(fiscalQuartersBetween(dayjs('2024-06-30'), dayjs('2024-07-01'), JULY)).toBe(1)
+    expect(fiscalQuartersBetween(dayjs('2024-08-15'), dayjs('2023-08-15'), JULY)).toBe(-4)
+  })
+})
+
+describe('fiscal range iteration', () => {
+  const range = (value: { start: Dayjs; end: Dayjs; label?: string }): string =>
+    `${ymd(value.start)}..${ymd(value.end)} ${value.label ?? ''}`
+
+  it('should enumerate whole quarters overlapping the range', () => {
+    const quarters = [...iterateFiscalQuarters(dayjs('2024-05-10'), dayjs('2024-12-01'), JULY)]
+    expect(quarters.map(range)).toEqual([
+      '2024-04-01..2024-06-30 Q4 FY2024',
+      '2024-07-01..2024-09-30 Q1 FY2025',
+      '2024-10-01..2024-12-31 Q2 FY2025'
+    ])
+  })
+
+  it('should enumerate 52/53-week years', () => {
+    const years = [...iterateFiscalYears(dayjs('2023-01-01'), dayjs('2024-03-01'), NRF)]
+    expect(years.map(range)).toEqual([
+      '2022-01-30..2023-01-28 FY2023',
+      '2023-01-29..2024-02-03 FY2024',
+      '2024-02-04..2025-02-01 FY2025'
+    ])
+  })
+
+  it('should yield nothing when end is before start', () => {
+    expect([...iterateFiscalQuarters(dayjs('2024-12-01'), dayjs('2024-05-10'), JULY)]).toEqual([])
+  })
+})
+
+describe('validateFiscalYearConfig', () => {
+  it('should accept presets', () => {
+    expect(() => validateFiscalYearConfig(JULY)).not.toThrow()
+    expect(() => validateFiscalYearConfig(NRF)).not.toThrow()
+  })
+
+  it('should reject invalid configurations', () => {
+    expect(() => validateFiscalYearConfig({ startMonth: 13 })).toThrow(ValidationError)
+    expect(() => validateFiscalYearConfig({ startMonth: 4, startDay: 0 })).toThrow(
+      'Invalid fiscal startDay'
+    )
+    expect(() => validateFiscalYearConfig({ startMonth: 1, weekEndsOn: 7 })).toThrow(
+      'Invalid fiscal weekEndsOn'
+    )
+    expect(() => validateFiscalYearConfig({ startMonth: 1, yearEnd: 'first' as never })).toThrow(
+      'Invalid fiscal yearEnd'
+    )
+  })
+})
@@ -0,0 +1,532 @@
+import type { Dayjs } from 'dayjs'
+import type {
+  DateRange,
+  FinancialPeriod,
+  FinancialQuarter,
+  FiscalWeekPattern,
+  FiscalYearConfig
+} from './types'
+
+/**
+ * Fiscal year arithmetic shared by the financial-quarter plugin and the
+ * analytics service. Configurations are assumed valid; check user input with
+ * validateFiscalYearConfig() first.
+ *
+ * Fiscal years are identified internally by the calendar year they end in;
+ * the `yearLabel` strategy only affects the public year number and name.
+ */
+
+const WEEK_PATTERNS: Record<FiscalWeekPattern, readonly number[]> = {
+  '4-4-5': [4, 4, 5, 4, 4, 5, 4, 4, 5, 4, 4, 5],
+  '4-5-4': [4, 5, 4, 4, 5, 4, 4, 5, 4, 4, 5, 4],
+  '5-4-4': [5, 4, 4, 5, 4, 4, 5, 4, 4, 5, 4, 4],
+  '13x4': [4, 4, 4, 4, 4, 4, 4, 4, 4, 4, 4, 4, 4]
+}
+
+/**
+ * Layout of a 52/53-week fiscal year
+ */
+interface FiscalWeekYear {
+  year: number
+  start: Dayjs
+  end: Dayjs
+  /** Weeks in each period; the 53rd week extends the last period */
+  periods: number[]
+}
+
+/**
+ * Position of a date within a 52/53-week fiscal year
+ */
+interface FiscalWeekPosition extends FiscalWeekYear {
+  /** Zero-based week of the year */
+  weekIndex: number
+}
+
+function isWeekBased(config: FiscalYearConfig): boolean {
+  return config.weekPattern !== undefined
+}
+
+/**
+ * Whether fiscal years cross a calendar year boundary. Years starting on
+ * Jan 1 (or in January, for week-based years) are named after that year
+ * under every labeling strategy.
+ */
+function spansYears(config: FiscalYearConfig): boolean {
+  return isWeekBased(config)
+    ? config.startMonth !== 1
+    : config.startMonth !== 1 || (config.startDay ?? 1) !== 1
+}
+
+/**
+ * Last day of a 52/53-week fiscal year. The year is named after the calendar
+ * year of its final month, so it may end a few days into the next year.
+ */
+function getWeekYearEnd(reference: Dayjs, fiscalYear: number, config: FiscalYearConfig): Dayjs {
+  const endMonth = (config.startMonth + 10) % 12 // month before startMonth, 0-indexed
+  const weekEndsOn = config.weekEndsOn ?? 6
+  const monthEnd = reference
+    .startOf('year')
+    .year(fiscalYear)
+    .month(endMonth)
+    .endOf('month')
+    .startOf('day')
+
+  if (config.yearEnd === 'nearest') {
+    const ahead = (weekEndsOn - monthEnd.day() + 7) % 7
+    return monthEnd.add(ahead > 3 ? ahead - 7 : ahead, 'day')
+  }
+  return monthEnd.subtract((monthEnd.day() - weekEndsOn + 7) % 7, 'day')
+}
+
+/**
+ * Layout of a 52/53-week fiscal year from the end of the previous year and its own
+ */
+function toWeekYear(
+  year: number,
+  previousEnd: Dayjs,
+  end: Dayjs,
+  config: FiscalYearConfig
+): FiscalWeekYear {
+  const start = previousEnd.add(1, 'day')
+  const periods = [...WEEK_PATTERNS[config.weekPattern ?? '4-4-5']]
+  if (end.diff(start, 'day') + 1 > 52 * 7) {
+    periods[periods.length - 1] = (periods[periods.length - 1] ?? 0) + 1
+  }
+  return { year, start, end, periods }
+}
+
+/**
+ * Get the layout of a 52/53-week fiscal year
+ */
+function getWeekYear(reference: Dayjs, year: number, config: FiscalYearConfig): FiscalWeekYear {
+  return toWeekYear(
+    year,
+    getWeekYearEnd(reference, year - 1, config),
+    getWeekYearEnd(reference, year, config),
+    config
+  )
+}
+
+/**
+ * Locate a date within its 52/53-week fiscal year
+ */
+function getWeekPosition(date: Dayjs, config: FiscalYearConfig): FiscalWeekPosition {
+  const day = date.startOf('day')
+  const endMonth = (config.startMonth + 10) % 12
+  let year = day.month() <= endMonth ? day.year() : day.year() + 1
+  let end = getWeekYearEnd(day, year, config)
+  let previousEnd = getWeekYearEnd(day, year - 1, config)
+
+  // Year ends fall up to a week around the end of their month
+  if (!day.isAfter(previousEnd)) {
+    year--
+    end = previousEnd
+    previousEnd = getWeekYearEnd(day, year - 1, config)
+  } else if (day.isAfter(end)) {
+    year++
+    previousEnd = end
+    end = getWeekYearEnd(day, year, config)
+  }
+
+  const layout = toWeekYear(year, previousEnd, end, config)
+  return { ...layout, weekIndex: Math.floor(day.diff(layout.start, 'day') / 7) }
+}
+
+/**
+ * Zero-based index of the period containing a week
+ */
+function getWeekPeriodIndex(position: FiscalWeekPosition): number {
+  let weeksBefore = 0
+  for (let index = 0; index < position.periods.length - 1; index++) {
+    weeksBefore += position.periods[index] ?? 0
+    if (position.weekIndex < weeksBefore) {
+      return index
+    }
+  }
+  return position.periods.length - 1
+}
+
+/**
+ * Week offsets [start, end) of a range of periods within the year
+ */
+function getWeekPeriodBounds(
+  position: FiscalWeekYear,
+  firstPeriod: number,
+  endPeriod: number
+): [number, number] {
+  const sum = (from: number, to: number): number =>
+    position.periods.slice(from, to).reduce((total, weeks) => total + weeks, 0)
+  const before = sum(0, firstPeriod)
+  return [before, before + sum(firstPeriod, endPeriod)]
+}
+
+/**
+ * Week offsets [start, end) of a fiscal quarter within its year; the fourth
+ * quarter takes any periods beyond the twelfth
+ */
+function getWeekQuarterBounds(position: FiscalWeekYear, quarter: number): [number, number] {
+  const endPeriod = quarter === 4 ? position.periods.length : quarter * 3
+  return getWeekPeriodBounds(position, (quarter - 1) * 3, endPeriod)
+}
+
+/**
+ * Position of a date within a fiscal year of calendar-month periods
+ */
+interface FiscalMonthPosition {
+  /** Calendar year in which the fiscal year starts */
+  startYear: number
+  /** Zero-based period (month) of the fiscal year */
+  periodIndex: number
+}
+
+/**
+ * First day of a calendar-month period, counted from the start of a fiscal
+ * year (below 0 or above 11 for neighbouring years). Periods are anchored to
+ * `startDay` and clamped to shorter months: a 31st start gives Feb 28/29 and
+ * Apr 30, then May 31 again rather than drifting to the 28th.
+ */
+function getMonthPeriodStart(
+  reference: Dayjs,
+  startYear: number,
+  periodIndex: number,
+  config: FiscalYearConfig
+): Dayjs {
+  const months = startYear * 12 + config.startMonth - 1 + periodIndex
+  const monthStart = reference
+    .startOf('year')
+    .year(Math.floor(months / 12))
+    .month(((months % 12) + 12) % 12)
+  return monthStart.date(Math.min(config.startDay ?? 1, monthStart.daysInMonth()))
+}
+
+/**
+ * Locate a date within its fiscal year of calendar-month periods
+ */
+function getMonthPosition(date: Dayjs, config: FiscalYearConfig): FiscalMonthPosition {
+  const day = date.startOf('day')
+  // Periods start in their own month, so days before the anchor belong to the previous one
+  const anchorDay = Math.min(config.startDay ?? 1, day.daysInMonth())
+  const periodMonth = day.year() * 12 + day.month() - (day.date() < anchorDay ? 1 : 0)
+  const monthsFromStart = periodMonth - (config.startMonth - 1)
+  const startYear = Math.floor(monthsFromStart / 12)
+  return { startYear, periodIndex: monthsFromStart - startYear * 12 }
+}
+
+/**
+ * Boundaries of a run of calendar-month periods, relative to a date's period
+ */
+function getMonthPeriodRange(
+  date: Dayjs,
+  firstPeriod: number,
+  endPeriod: number,
+  config: FiscalYearConfig
+): [Dayjs, Dayjs] {
+  const { startYear } = getMonthPosition(date, config)
+  return [
+    getMonthPeriodStart(date, startYear, firstPeriod, config),
+    getMonthPeriodStart(date, startYear, endPeriod, config).subtract(1, 'day').endOf('day')
+  ]
+}
+
+/**
+ * Move a date by whole calendar-month periods, keeping its offset within the
+ * period (clamped to the last day of shorter periods)
+ */
+function shiftMonthPeriods(date: Dayjs, periods: number, config: FiscalYearConfig): Dayjs {
+  const { startYear, periodIndex } = getMonthPosition(date, config)
+  const offset = date
+    .startOf('day')
+    .diff(getMonthPeriodStart(date, startYear, periodIndex, config), 'day')
+  const target = periodIndex + periods
+  const targetStart = getMonthPeriodStart(date, startYear, target, config)
+  const targetEnd = getMonthPeriodStart(date, startYear, target + 1, config).subtract(1, 'day')
+
+  const shifted = targetStart.add(offset, 'day')
+  const day = shifted.isAfter(targetEnd) ? targetEnd : shifted
+  return date.add(day.diff(date.startOf('day'), 'day'), 'day')
+}
+
+/**
+ * Calendar year in which the fiscal year of a date ends
+ */
+function getFiscalEndYear(date: Dayjs, config: FiscalYearConfig): number {
+  if (isWeekBased(config)) {
+    return getWeekPosition(date, config).year
+  }
+
+  return getMonthPosition(date, config).startYear + (spansYears(config) ? 1 : 0)
+}
+
+/**
+ * Move a date by whole quarters or periods of 52/53-week years, keeping its
+ * offset within the unit (clamped to the last day of shorter units)
+ */
+function shiftWeekUnits(
+  date: Dayjs,
+  count: number,
+  unit: 'quarter' | 'period',
+  config: FiscalYearConfig
+): Dayjs {
+  const day = date.startOf('day')
+  const position = getWeekPosition(day, config)
+  const periodIndex = getWeekPeriodIndex(position)
+  const unitsPerYear = unit === 'quarter' ? 4 : position.periods.length
+  const getBounds = (layout: FiscalWeekYear, index: number): [number, number] =>
+    unit === 'quarter'
+      ? getWeekQuarterBounds(layout, index + 1)
+      : getWeekPeriodBounds(layout, index, index + 1)
+
+  const index = unit === 'quarter' ? Math.min(Math.floor(periodIndex / 3), 3) : periodIndex
+  const offset = day.diff(position.start, 'day') - getBounds(position, index)[0] * 7
+
+  const target = position.year * unitsPerYear + index + count
+  const targetYear = Math.floor(target / unitsPerYear)
+  const layout = targetYear === position.year ? position : getWeekYear(day, targetYear, config)
+  const [firstWeek, endWeek] = getBounds(layout, target - targetYear * unitsPerYear)
+  const shifted = layout.start.add(Math.min(firstWeek * 7 + offset, endWeek * 7 - 1), 'day')
+  return date.add(shifted.diff(day, 'day'), 'day')
+}
+
+/**
+ * Get the fiscal year number of a date under the configured labeling strategy
+ * @example getFiscalYear(dayjs('2024-08-15'), { startMonth: 7 }) // 2025
+ */
+export function getFiscalYear(date: Dayjs, config: FiscalYearConfig): number {
+  const endYear = getFiscalEndYear(date, config)
+  return (config.yearLabel ?? 'endYear') !== 'endYear' && spansYears(config) ? endYear - 1 : endYear
+}
+
+/**
+ * Get the fiscal year name of a date (e.g. "2025", or "2024-25" with span labeling)
+ */
+export function getFiscalYearName(date: Dayjs, config: FiscalYearConfig): string {
+  const endYear = getFiscalEndYear(date, config)
+  if (config.yearLabel === 'span' && spansYears(config)) {
+    return `${endYear - 1}-${String(endYear % 100).padStart(2, '0')}`
+  }
+  return String(getFiscalYear(date, config))
+}
+
+/**
+ * Get the fiscal quarter of a date
+ */
+export function getFiscalQuarter(date: Dayjs, config: FiscalYearConfig): 1 | 2 | 3 | 4 {
+  if (isWeekBased(config)) {
+    const index = getWeekPeriodIndex(getWeekPosition(date, config))
+    return (Math.min(Math.floor(index / 3), 3) + 1) as 1 | 2 | 3 | 4
+  }
+
+  // Each quarter is 3 periods
+  return (Math.floor(getMonthPosition(date, config).periodIndex / 3) + 1) as 1 | 2 | 3 | 4
+}
+
+/**
+ * Get the start of the fiscal year of a date
+ */
+export function getFiscalYearStart(date: Dayjs, config: FiscalYearConfig): Dayjs {
+  if (isWeekBased(config)) {
+    return getWeekPosition(date, config).start
+  }
+
+  return getMonthPeriodRange(date, 0, 12, config)[0]
+}
+
+/**
+ * Get the end of the fiscal year of a date
+ */
+export function getFiscalYearEnd(date: Dayjs, config: FiscalYearConfig): Dayjs {
+  if (isWeekBased(config)) {
+    return getWeekPosition(date, config).end.endOf('day')
+  }
+
+  return getMonthPeriodRange(date, 0, 12, config)[1]
+}
+
+/**
+ * Get the start of the fiscal quarter of a date
+ */
+export function getFiscalQuarterStart(date: Dayjs, config: FiscalYearConfig): Dayjs {
+  const fiscalQuarter = getFiscalQuarter(date, config)
+  if (isWeekBased(config)) {
+    const position = getWeekPosition(date, config)
+    const [firstWeek] = getWeekQuarterBounds(position, fiscalQuarter)
+    return position.start.add(firstWeek * 7, 'day')
+  }
+
+  return getMonthPeriodRange(date, (fiscalQuarter - 1) * 3, fiscalQuarter * 3, config)[0]
+}
+
+/**
+ * Get the end of the fiscal quarter of a date
+ */
+export function getFiscalQuarterEnd(date: Dayjs, config: FiscalYearConfig): Dayjs {
+  if (isWeekBased(config)) {
+    const position = getWeekPosition(date, config)
+    const [, endWeek] = getWeekQuarterBounds(position, getFiscalQuarter(date, config))
+    return position.start.add(endWeek * 7 - 1, 'day').endOf('day')
+  }
+
+  const fiscalQuarter = getFiscalQuarter(date, config)
+  return getMonthPeriodRange(date, (fiscalQuarter - 1) * 3, fiscalQuarter * 3, config)[1]
+}
+
+/**
+ * Get the fiscal period (month) of a date, 1-12 (1-13 for 13x4 calendars)
+ */
+export function getFiscalPeriod(date: Dayjs, config: FiscalYearConfig): number {
+  if (isWeekBased(config)) {
+    return getWeekPeriodIndex(getWeekPosition(date, config)) + 1
+  }
+
+  return getMonthPosition(date, config).periodIndex + 1
+}
+
+/**
+ * Get the start of the fiscal period of a date
+ */
+export function getFiscalPeriodStart(date: Dayjs, config: FiscalYearConfig): Dayjs {
+  const period = getFiscalPeriod(date, config)
+  if (isWeekBased(config)) {
+    const position = getWeekPosition(date, config)
+    const [firstWeek] = getWeekPeriodBounds(position, period - 1, period)
+    return position.start.add(firstWeek * 7, 'day')
+  }
+
+  return getMonthPeriodRange(date, period - 1, period, config)[0]
+}
+
+/**
+ * Get the end of the fiscal period of a date
+ */
+export function getFiscalPeriodEnd(date: Dayjs, config: FiscalYearConfig): Dayjs {
+  const period = getFiscalPeriod(date, config)
+  if (isWeekBased(config)) {
+    const position = getWeekPosition(date, config)
+    const [, endWeek] = getWeekPeriodBounds(position, period - 1, period)
+    return position.start.add(endWeek * 7 - 1, 'day').endOf('day')
+  }
+
+  return getMonthPeriodRange(date, period - 1, period, config)[1]
+}
+
+/**
+ * Get the fiscal week of a date (1 for the first seven days of the fiscal year)
+ */
+export function getFiscalWeek(date: Dayjs, config: FiscalYearConfig): number {
+  return Math.floor(date.startOf('day').diff(getFiscalYearStart(date, config), 'day') / 7) + 1
+}
+
+/**
+ * Get the number of (possibly partial) weeks in the fiscal year of a date
+ */
+export function getFiscalWeeksInYear(date: Dayjs, config: FiscalYearConfig): number {
+  const start = getFiscalYearStart(date, config)
+  return Math.ceil(getFiscalYearEnd(date, config).diff(start, 'day', true) / 7)
+}
+
+/**
+ * Get the fiscal quarter of a date with its boundaries
+ */
+export function getFiscalQuarterInfo(date: Dayjs, config: FiscalYearConfig): FinancialQuarter {
+  return {
+    quarter: getFiscalQuarter(date, config),
+    year: getFiscalYear(date, config),
+    startDate: getFiscalQuarterStart(date, config),
+    endDate: getFiscalQuarterEnd(date, config)
+  }
+}
+
+/**
+ * Get the fiscal period of a date with its boundaries
+ */
+export function getFiscalPeriodInfo(date: Dayjs, config: FiscalYearConfig): FinancialPeriod {
+  return {
+    period: getFiscalPeriod(date, config),
+    quarter: getFiscalQuarter(date, config),
+    year: getFiscalYear(date, config),
+    startDate: getFiscalPeriodStart(date, config),
+    endDate: getFiscalPeriodEnd(date, config)
+  }
+}
+
+/**
+ * Add fiscal quarters to a date (negative values move backwards)
+ */
+export function addFiscalQuarters(date: Dayjs, quarters: number, config: FiscalYearConfig): Dayjs {
+  if (quarters === 0) {
+    return date
+  }
+
+  if (isWeekBased(config)) {
+    return shiftWeekUnits(date, quarters, 'quarter', config)
+  }
+
+  // Each quarter is 3 periods
+  return shiftMonthPeriods(date, quarters * 3, config)
+}
+
+/**
+ * Add fiscal periods to a date (negative values move backwards)
+ */
+export function addFiscalPeriods(date: Dayjs, periods: number, config: FiscalYearConfig): Dayjs {
+  if (periods === 0) {
+    return date
+  }
+
+  if (isWeekBased(config)) {
+    return shiftWeekUnits(date, periods, 'period', config)
+  }
+
+  return shiftMonthPeriods(date, periods, config)
+}
+
+/**
+ * Count fiscal quarters from one date to another (negative when `to` is earlier)
+ */
+export function fiscalQuartersBetween(from: Dayjs, to: Dayjs, config: FiscalYearConfig): number {
+  const fromTotal = getFiscalEndYear(from, config) * 4 + getFiscalQuarter(from, config)
+  const toTotal = getFiscalEndYear(to, config) * 4 + getFiscalQuarter(to, config)
+  return toTotal - fromTotal
+}
+
+/**
+ * Enumerate the fiscal quarters overlapping start..end (inclusive) as whole
+ * quarter ranges labeled like "Q1 FY2025"
+ */
+export function* iterateFiscalQuarters(
+  start: Dayjs,
+  end: Dayjs,
+  config: FiscalYearConfig
+): Generator<DateRange> {
+  const last = end.startOf('day')
+  let quarterStart = getFiscalQuarterStart(start, config)
+
+  while (!quarterStart.isAfter(last)) {
+    const quarterEnd = getFiscalQuarterEnd(quarterStart, config)
+    yield {
+      start: quarterStart,
+      end: quarterEnd,
+      label: `Q${getFiscalQuarter(quarterStart, config)} FY${getFiscalYearName(quarterStart, config)}`
+    }
+    quarterStart = quarterEnd.add(1, 'day').startOf('day')
+  }
+}
+
+/**
+ * Enumerate the fiscal years overlapping start..end (inclusive) as whole year
+ * ranges labeled like "FY2025"
+ */
+export function* iterateFiscalYears(
+  start: Dayjs,
+  end: Dayjs,
+  config: FiscalYearConfig
+): Generator<DateRange> {
+  const last = end.startOf('day')
+  let yearStart = getFiscalYearStart(start, config)
+
+  while (!yearStart.isAfter(last)) {
+    const yearEnd = getFiscalYearEnd(yearStart, config)
+    yield { start: yearStart, end: yearEnd, label: `FY${getFiscalYearName(yearStart, config)}` }
+    yearStart = yearEnd.add(1, 'day').startOf('day')
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import dayjs from 'dayjs'
+import {
+  HolidayIndex,
+  getHolidayIndex,
+  findHoliday,
+  isHolidayOn,
+  getHolidayPacks,
+  DayjsFactory
+} from '../src'
+import type { Holiday } from '../src'
+
+const holidays: Holiday[] = [
+  { date: '2024-05-01', name: 'Labor Day', type: 'public' },
+  { date: '2020-12-25', name: 'Christmas', type: 'public', recurring: true },
+  { date: '2020-02-29', name: 'Leap Day', type: 'company', recurring: true },
+  {
+    date: '2020-11-26',
+    name: 'Thanksgiving',
+    type: 'public',
+    rule: { type: 'nthWeekday', month: 11, weekday: 4, nth: 4 }
+  },
+  {
+    date: '2020-01-01',
+    name: 'New Year',
+    type: 'public',
+    recurring: true,
+    observance: 'nearestWeekday'
+  }
+]
+
+describe('HolidayIndex', () => {
+  it('should find one-off, recurring and rule-based holidays', () => {
+    const index = new HolidayIndex(holidays)
+
+    expect(index.find('2024-05-01')?.name).toBe('Labor Day')
+    expect(index.find('2025-05-01')).toBeNull()
+    expect(index.find(dayjs('2031-12-25'))?.name).toBe('Christmas')
+    expect(index.find('2024-11-28')?.name).toBe('Thanksgiving')
+    expect(index.has('2024-02-29')).toBe(true)
+  })
+
+  it('should find observed dates across the year boundary', () => {
+    const index = new HolidayIndex(holidays)
+
+    // 2022-01-01 is a Saturday, observed on Friday 2021-12-31
+    expect(index.find('2021-12-31')?.name).toBe('New Year')
+    expect(index.find('2022-01-01')?.name).toBe('New Year')
+  })
+
+  it('should prefer the first holiday of the list like a linear scan', () => {
+    const index = new HolidayIndex([
+      { date: '2024-12-25', name: 'Company Day', type: 'company' },
+      { date: '2020-12-25', name: 'Christmas', type: 'public', recurring: true }
+    ])
+    expect(index.find('2024-12-25')?.name).toBe('Company Day')
+    expect(index.find('2025-12-25')?.name).toBe('Christmas')
+  })
+
+  it('should list the holiday dates of a year', () => {
+    const index = new HolidayIndex(holidays)
+
+    // 2023-01-01 is a Sunday, observed on Monday
+    expect(index.getDatesInYear(2023)).toEqual([
+      '2023-01-01',
+      '2023-01-02',
+      '2023-11-23',
+      '2023-12-25'
+    ])
+    expect(index.getDatesInYear(2024)).toEqual([
+      '2024-01-01',
+      '2024-02-29',
+      '2024-05-01',
+      '2024-11-28',
+      '2024-12-25'
+    ])
+  })
+
+  it('should agree with isHolidayOn for every day of generated packs', () => {
+    const pack = [...holidays, ...getHolidayPacks('ja', 2023, 2025)]
+    const index = new HolidayIndex(pack)
+
+    for (let date = dayjs('2023-01-01'); date.year() < 2026; date = date.add(1, 'day')) {
+      const expected = pack.find(holiday => isHolidayOn(holiday, date)) ?? null
+      expect(index.find(date)).toBe(expected)
+    }
+  })
+})
+
+describe('getHolidayIndex', () => {
+  it('should share one index per holidays array', () => {
+    expect(getHolidayIndex(holidays)).toBe(getHolidayIndex(holidays))
+    expect(getHolidayIndex([...holidays])).not.toBe(getHolidayIndex(holidays))
+  })
+
+  it('should rebuild when entries are appended', () => {
+    const list: Holiday[] = [{ date: '2024-01-01', name: 'New Year', type: 'public' }]
+    expect(findHoliday(list, dayjs('2024-05-01'))).toBeNull()
+
+    list.push({ date: '2024-05-01', name: 'Labor Day', type: 'public' })
+    expect(findHoliday(list, dayjs('2024-05-01'))?.name).toBe('Labor Day')
+  })
+
+  it('should back isBusinessDay on factory instances', () => {
+    const many: Holiday[] = Array.from({ length: 5000 }, (_, i) => ({
+      date: dayjs('2000-01-01').add(i, 'day').format('YYYY-MM-DD'),
+      name: `Closure ${i}`,
+      type: 'company'
+    }))
+    const factory = new DayjsFactory({
+      businessRules: { workdays: [1, 2, 3, 4, 5], holidays: many }
+    })
+
+    expect(factory.create({ input: '2010-01-04' }).isBusinessDay()).toBe(false)
+    expect(factory.create({ input: '2020-01-06' }).isBusinessDay()).toBe(true)
+  })
+})
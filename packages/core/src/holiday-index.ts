@@ -0,0 +1,176 @@
+import type { Dayjs } from 'dayjs'
+import type { Holiday } from './types'
+import { getHolidayDate, getObservedDate } from './holiday'
+
+/**
+ * Holiday with its position in the source array; lookups return the earliest
+ * holiday when several fall on the same date, like a linear scan would
+ */
+interface IndexedHoliday {
+  readonly holiday: Holiday
+  readonly order: number
+}
+
+/**
+ * HolidayIndex - Constant-time holiday lookup compiled from a holiday list
+ *
+ * One-off holidays are keyed by YYYY-MM-DD and recurring fixed-date holidays
+ * by MM-DD. Rule-based and observance-shifted holidays are expanded per year
+ * on first access. Indexes are immutable views of their holiday array: use
+ * getHolidayIndex() to share one index per array.
+ */
+export class HolidayIndex {
+  private readonly byDate: Map<string, IndexedHoliday> = new Map()
+  private readonly byMonthDay: Map<string, IndexedHoliday> = new Map()
+  private readonly expanded: IndexedHoliday[] = []
+  private readonly byYear: Map<number, Map<string, IndexedHoliday>> = new Map()
+  private readonly datesByYear: Map<number, readonly string[]> = new Map()
+
+  /**
+   * Number of holidays compiled into the index
+   */
+  readonly size: number
+
+  constructor(holidays: readonly Holiday[]) {
+    this.size = holidays.length
+    holidays.forEach((holiday, order) => {
+      const entry = { holiday, order }
+      const shifted = holiday.observance !== undefined && holiday.observance !== 'none'
+
+      if (holiday.rule || shifted) {
+        this.expanded.push(entry)
+      } else if (holiday.recurring === true) {
+        setFirst(this.byMonthDay, holiday.date.substring(5, 10), entry)
+      } else {
+        setFirst(this.byDate, holiday.date.substring(0, 10), entry)
+      }
+    })
+  }
+
+  /**
+   * Find the holiday falling on a date (YYYY-MM-DD or a Dayjs instance)
+   */
+  find(date: Dayjs | string): Holiday | null {
+    const dateStr = typeof date === 'string' ? date.substring(0, 10) : date.format('YYYY-MM-DD')
+    const candidates = [
+      this.byDate.get(dateStr),
+      this.byMonthDay.get(dateStr.substring(5, 10)),
+      this.expanded.length > 0
+        ? this.getExpandedYear(parseInt(dateStr.substring(0, 4), 10)).get(dateStr)
+        : undefined
+    ]
+
+    let found: IndexedHoliday | undefined
+    for (const candidate of candidates) {
+      if (candidate && (!found || candidate.order < found.order)) {
+        found = candidate
+      }
+    }
+    return found?.holiday ?? null
+  }
+
+  /**
+   * Check if any holiday falls on a date
+   */
+  has(date: Dayjs | string): boolean {
+    return this.find(date) !== null
+  }
+
+  /**
+   * Get every holiday date (YYYY-MM-DD) in a year, sorted and de-duplicated
+   */
+  getDatesInYear(year: number): readonly string[] {
+    const cached = this.datesByYear.get(year)
+    if (cached) {
+      return cached
+    }
+
+    const prefix = `${String(year).padStart(4, '0')}-`
+    const dates = new Set<string>()
+    for (const date of this.byDate.keys()) {
+      if (date.startsWith(prefix)) {
+        dates.add(date)
+      }
+    }
+    for (const monthDay of this.byMonthDay.keys()) {
+      const date = prefix + monthDay
+      // Feb 29 only exists in leap years
+      if (new Date(`${date}T00:00:00Z`).toISOString().startsWith(date)) {
+        dates.add(date)
+      }
+    }
+    if (this.expanded.length > 0) {
+      for (const date of this.getExpandedYear(year).keys()) {
+        dates.add(date)
+      }
+    }
+
+    const sorted = Object.freeze(Array.from(dates).sort())
+    this.datesByYear.set(year, sorted)
+    return sorted
+  }
+
+  /**
+   * Occurrences of rule-based and observance-shifted holidays within a year,
+   * at both the actual and the observed date of shifted ones
+   */
+  private getExpandedYear(year: number): Map<string, IndexedHoliday> {
+    let dates = this.byYear.get(year)
+    if (dates) {
+      return dates
+    }
+
+    dates = new Map()
+    const prefix = `${String(year).padStart(4, '0')}-`
+    for (const entry of this.expanded) {
+      const actual = getHolidayDate(entry.holiday, year)
+      if (actual !== null) {
+        setFirst(dates, actual, entry)
+      }
+      // Observed dates may cross the year boundary by a few days
+      for (const source of [year - 1, year, year + 1]) {
+        const date = getObservedDate(entry.holiday, source)
+        if (date !== null && date.startsWith(prefix)) {
+          setFirst(dates, date, entry)
+        }
+      }
+    }
+
+    this.byYear.set(year, dates)
+    return dates
+  }
+}
+
+function setFirst(map: Map<string, IndexedHoliday>, key: string, entry: IndexedHoliday): void {
+  const existing = map.get(key)
+  if (!existing || entry.order < existing.order) {
+    map.set(key, entry)
+  }
+}
+
+/**
+ * Compiled indexes, one per holidays array
+ */
+const indexes = new WeakMap<readonly Holiday[], HolidayIndex>()
+
+/**
+ * Get the shared index of a holiday array, compiling it on first use.
+ * Holiday arrays should be treated as immutable: replace the array (as the
+ * registry and config updates do) rather than editing entries in place.
+ * Appending or removing entries is detected and triggers a rebuild.
+ */
+export function getHolidayIndex(holidays: readonly Holiday[]): HolidayIndex {
+  let index = indexes.get(holidays)
+  if (!index || index.size !== holidays.length) {
+    index = new HolidayIndex(holidays)
+    indexes.set(holidays, index)
+  }
+  return index
+}
+
+/**
+ * Find the holiday that falls on the given date
+ */
+export function findHoliday(holidays: readonly Holiday[], date: Dayjs): Holiday | null {
+  return getHolidayIndex(holidays).find(date)
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getHolidayPack,
+  getHolidayPacks,
+  validateHoliday,
+  DayjsFactory,
+  ValidationError
+} from '../src'
+import type { HolidayPackRegion } from '../src'
+
+const datesOf = (region: HolidayPackRegion, year: number, name: string): string[] =>
+  getHolidayPack(region, year)
+    .filter(holiday => holiday.name === name)
+    .map(holiday => holiday.date)
+
+describe('getHolidayPack', () => {
+  describe('zh-cn', () => {
+    it('should generate lunar holidays', () => {
+      expect(datesOf('zh-cn', 2024, '春节')).toEqual(['2024-02-10', '2024-02-11', '2024-02-12'])
+      expect(datesOf('zh-cn', 2024, '端午节')).toEqual(['2024-06-10'])
+      expect(datesOf('zh-cn', 2024, '中秋节')).toEqual(['2024-09-17'])
+    })
+
+    it('should compute Qingming from the solar term', () => {
+      expect(datesOf('zh-cn', 2023, '清明节')).toEqual(['2023-04-05'])
+      expect(datesOf('zh-cn', 2024, '清明节')).toEqual(['2024-04-04'])
+      expect(datesOf('zh-cn', 2026, '清明节')).toEqual(['2026-04-05'])
+    })
+
+    it('should include the 2025 statutory changes', () => {
+      expect(datesOf('zh-cn', 2024, '除夕')).toEqual([])
+      expect(datesOf('zh-cn', 2025, '除夕')).toEqual(['2025-01-28'])
+      expect(datesOf('zh-cn', 2025, '劳动节')).toEqual(['2025-05-01', '2025-05-02'])
+      expect(getHolidayPack('zh-cn', 2025)).toHaveLength(13)
+    })
+  })
+
+  describe('ja', () => {
+    it('should generate equinoxes and happy Monday holidays', () => {
+      expect(datesOf('ja', 2025, '春分の日')).toEqual(['2025-03-20'])
+      expect(datesOf('ja', 2025, '秋分の日')).toEqual(['2025-09-23'])
+      expect(datesOf('ja', 2025, '成人の日')).toEqual(['2025-01-13'])
+      expect(datesOf('ja', 2025, '海の日')).toEqual(['2025-07-21'])
+    })
+
+    it('should add substitute and sandwiched holidays', () => {
+      expect(datesOf('ja', 2026, '振替休日')).toEqual(['2026-05-06'])
+      expect(datesOf('ja', 2026, '国民の休日')).toEqual(['2026-09-22'])
+      expect(datesOf('ja', 2019, '国民の休日')).toEqual(['2019-04-30', '2019-05-02'])
+    })
+
+    it('should apply the Olympic year moves', () => {
+      expect(datesOf('ja', 2021, 'スポーツの日')).toEqual(['2021-07-23'])
+      expect(datesOf('ja', 2021, '山の日')).toEqual(['2021-08-08'])
+      expect(datesOf('ja', 2021, '振替休日')).toEqual(['2021-08-09'])
+    })
+  })
+
+  describe('ko', () => {
+    it('should generate Seollal and Chuseok from the Korean calendar', () => {
+      expect(datesOf('ko', 2025, '설날')).toEqual(['2025-01-28', '2025-01-29', '2025-01-30'])
+      expect(datesOf('ko', 2024, '추석')).toEqual(['2024-09-16', '2024-09-17', '2024-09-18'])
+      expect(datesOf('ko', 2024, '부처님오신날')).toEqual(['2024-05-15'])
+    })
+
+    it('should add substitute holidays', () => {
+      expect(datesOf('ko', 2024, '대체공휴일')).toEqual(['2024-02-12', '2024-05-06'])
+      expect(datesOf('ko', 2025, '대체공휴일')).toEqual(['2025-03-03', '2025-05-06', '2025-10-08'])
+    })
+  })
+
+  it('should produce valid holidays for every supported year', () => {
+    for (const region of ['zh-cn', 'ja', 'ko'] as const) {
+      const holidays = getHolidayPacks(region, 2008, 2099)
+      holidays.forEach(holiday => expect(() => validateHoliday(holiday)).not.toThrow())
+    }
+  })
+
+  it('should reject unsupported regions and years', () => {
+    expect(() => getHolidayPack('de' as HolidayPackRegion, 2024)).toThrow(ValidationError)
+    expect(() => getHolidayPack('ja', 2007)).toThrow(ValidationError)
+    expect(() => getHolidayPack('ja', 2100)).toThrow(ValidationError)
+  })
+
+  it('should plug into business rules', () => {
+    const factory = new DayjsFactory({
+      businessRules: {
+        workdays: [1, 2, 3, 4, 5],
+        holidays: getHolidayPack('zh-cn', 2024)
+      }
+    })
+
+    expect(factory.create({ input: '2024-09-17' }).isBusinessDay()).toBe(false)
+    expect(factory.create({ input: '2024-09-18' }).isBusinessDay()).toBe(true)
+  })
+})
@@ -0,0 +1,301 @@
+import type { Holiday } from './types'
+import { getRuleDate } from './holiday'
+import { lunarToSolar } from './lunar'
+import { ValidationError } from './validator'
+
+/**
+ * Regions with a generated holiday pack
+ */
+export type HolidayPackRegion = 'zh-cn' | 'ja' | 'ko'
+
+export const HOLIDAY_PACK_REGIONS: readonly HolidayPackRegion[] = ['zh-cn', 'ja', 'ko']
+
+/**
+ * Years covered by the holiday packs. Earlier years follow different holiday
+ * laws; later years are outside the lunar tables and equinox formulas.
+ */
+export const HOLIDAY_PACK_MIN_YEAR = 2008
+export const HOLIDAY_PACK_MAX_YEAR = 2099
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+interface PackEntry {
+  date: string
+  name: string
+}
+
+function ymd(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+function addDays(dateStr: string, days: number): string {
+  const time = new Date(`${dateStr}T00:00:00Z`).getTime()
+  return new Date(time + days * MS_PER_DAY).toISOString().substring(0, 10)
+}
+
+function weekdayOf(dateStr: string): number {
+  return new Date(`${dateStr}T00:00:00Z`).getUTCDay()
+}
+
+function nthMonday(year: number, month: number, nth: 2 | 3): string {
+  return getRuleDate({ type: 'nthWeekday', month, weekday: 1, nth }, year) ?? ''
+}
+
+/**
+ * Statutory public holidays of mainland China. Make-up workdays and bridge
+ * days are announced by the State Council every year and are not included.
+ */
+function getChinaHolidays(year: number): PackEntry[] {
+  const springFestival = lunarToSolar(year, 1, 1)
+  const entries: PackEntry[] = [{ date: ymd(year, 1, 1), name: '元旦' }]
+
+  // 2008-2013: eve + first two days; 2014-2024: first three days; 2025+: eve + first three days
+  if (year <= 2013 || year >= 2025) {
+    entries.push({ date: addDays(springFestival, -1), name: '除夕' })
+  }
+  const springDays = year <= 2013 ? 2 : 3
+  for (let i = 0; i < springDays; i++) {
+    entries.push({ date: addDays(springFestival, i), name: '春节' })
+  }
+
+  // Qingming solar term: [Y * D + C] - [Y / 4] with the 21st century constant
+  const y = year % 100
+  const qingming = Math.floor(y * 0.2422 + 4.81) - Math.floor(y / 4)
+  entries.push({ date: ymd(year, 4, qingming), name: '清明节' })
+
+  entries.push({ date: ymd(year, 5, 1), name: '劳动节' })
+  if (year >= 2025) {
+    entries.push({ date: ymd(year, 5, 2), name: '劳动节' })
+  }
+
+  entries.push({ date: lunarToSolar(year, 5, 5), name: '端午节' })
+  entries.push({ date: lunarToSolar(year, 8, 15), name: '中秋节' })
+
+  for (let day = 1; day <= 3; day++) {
+    entries.push({ date: ymd(year, 10, day), name: '国庆节' })
+  }
+
+  return entries
+}
+
+/**
+ * National holidays of Japan, including substitute holidays (振替休日) and
+ * days sandwiched between two holidays (国民の休日)
+ */
+function getJapanHolidays(year: number): PackEntry[] {
+  const offset = year - 1980
+  const vernalEquinox = Math.floor(20.8431 + 0.242194 * offset - Math.floor(offset / 4))
+  const autumnalEquinox = Math.floor(23.2488 + 0.242194 * offset - Math.floor(offset / 4))
+
+  const entries: PackEntry[] = [
+    { date: ymd(year, 1, 1), name: '元日' },
+    { date: nthMonday(year, 1, 2), name: '成人の日' },
+    { date: ymd(year, 2, 11), name: '建国記念の日' },
+    { date: ymd(year, 3, vernalEquinox), name: '春分の日' },
+    { date: ymd(year, 4, 29), name: '昭和の日' },
+    { date: ymd(year, 5, 3), name: '憲法記念日' },
+    { date: ymd(year, 5, 4), name: 'みどりの日' },
+    { date: ymd(year, 5, 5), name: 'こどもの日' },
+    { date: nthMonday(year, 9, 3), name: '敬老の日' },
+    { date: ymd(year, 9, autumnalEquinox), name: '秋分の日' },
+    { date: ymd(year, 11, 3), name: '文化の日' },
+    { date: ymd(year, 11, 23), name: '勤労感謝の日' }
+  ]
+
+  if (year <= 2018) {
+    entries.push({ date: ymd(year, 12, 23), name: '天皇誕生日' })
+  } else if (year >= 2020) {
+    entries.push({ date: ymd(year, 2, 23), name: '天皇誕生日' })
+  }
+
+  if (year === 2019) {
+    entries.push({ date: ymd(year, 5, 1), name: '天皇の即位の日' })
+    entries.push({ date: ymd(year, 10, 22), name: '即位礼正殿の儀の行われる日' })
+  }
+
+  // Marine Day, Mountain Day and Sports Day were moved for the Tokyo Olympics
+  if (year === 2020) {
+    entries.push({ date: ymd(year, 7, 23), name: '海の日' })
+    entries.push({ date: ymd(year, 7, 24), name: 'スポーツの日' })
+    entries.push({ date: ymd(year, 8, 10), name: '山の日' })
+  } else if (year === 2021) {
+    entries.push({ date: ymd(year, 7, 22), name: '海の日' })
+    entries.push({ date: ymd(year, 7, 23), name: 'スポーツの日' })
+    entries.push({ date: ymd(year, 8, 8), name: '山の日' })
+  } else {
+    entries.push({ date: nthMonday(year, 7, 3), name: '海の日' })
+    entries.push({ date: nthMonday(year, 10, 2), name: year >= 2020 ? 'スポーツの日' : '体育の日' })
+    if (year >= 2016) {
+      entries.push({ date: ymd(year, 8, 11), name: '山の日' })
+    }
+  }
+
+  const dates = new Set(entries.map(entry => entry.date))
+
+  // 国民の休日: a day whose previous and next days are both national holidays
+  for (const date of Array.from(dates)) {
+    const next = addDays(date, 1)
+    if (!dates.has(next) && dates.has(addDays(date, 2))) {
+      entries.push({ date: next, name: '国民の休日' })
+    }
+  }
+  for (const entry of entries) {
+    dates.add(entry.date)
+  }
+
+  // 振替休日: a holiday on Sunday moves the day off to the next non-holiday
+  for (const date of Array.from(dates)) {
+    if (weekdayOf(date) === 0) {
+      let substitute = addDays(date, 1)
+      while (dates.has(substitute)) {
+        substitute = addDays(substitute, 1)
+      }
+      entries.push({ date: substitute, name: '振替休日' })
+      dates.add(substitute)
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Substitute holiday policy of a Korean holiday
+ * - `sunday`: Sunday or overlap with another holiday (설날, 추석)
+ * - `weekend`: Saturday, Sunday or overlap with another holiday (어린이날)
+ * - `weekendOnly`: Saturday or Sunday
+ */
+type KoreanSubstitutePolicy = 'sunday' | 'weekend' | 'weekendOnly'
+
+interface KoreanHoliday {
+  dates: string[]
+  name: string
+  substitute?: KoreanSubstitutePolicy
+}
+
+/**
+ * Public holidays of South Korea, including substitute holidays (대체공휴일).
+ * Lunar holidays use the Korean calendar, which occasionally differs from the
+ * Chinese one by a day.
+ */
+function getKoreaHolidays(year: number): PackEntry[] {
+  const lunar = (month: number, day: number): string =>
+    lunarToSolar(year, month, day, { calendar: 'korean' })
+  const seollal = lunar(1, 1)
+  const chuseok = lunar(8, 15)
+  const nationalDayPolicy = year >= 2021 ? 'weekendOnly' : undefined
+  const lateAddedPolicy = year >= 2023 ? 'weekendOnly' : undefined
+
+  const holidays: KoreanHoliday[] = [
+    { dates: [ymd(year, 1, 1)], name: '신정' },
+    {
+      dates: [addDays(seollal, -1), seollal, addDays(seollal, 1)],
+      name: '설날',
+      substitute: year >= 2014 ? 'sunday' : undefined
+    },
+    { dates: [ymd(year, 3, 1)], name: '삼일절', substitute: nationalDayPolicy },
+    {
+      dates: [ymd(year, 5, 5)],
+      name: '어린이날',
+      substitute: year >= 2014 ? 'weekend' : undefined
+    },
+    { dates: [lunar(4, 8)], name: '부처님오신날', substitute: lateAddedPolicy },
+    { dates: [ymd(year, 6, 6)], name: '현충일' },
+    { dates: [ymd(year, 8, 15)], name: '광복절', substitute: nationalDayPolicy },
+    {
+      dates: [addDays(chuseok, -1), chuseok, addDays(chuseok, 1)],
+      name: '추석',
+      substitute: year >= 2014 ? 'sunday' : undefined
+    },
+    { dates: [ymd(year, 10, 3)], name: '개천절', substitute: nationalDayPolicy },
+    { dates: [ymd(year, 12, 25)], name: '기독탄신일', substitute: lateAddedPolicy }
+  ]
+  if (year >= 2013) {
+    holidays.push({ dates: [ymd(year, 10, 9)], name: '한글날', substitute: nationalDayPolicy })
+  }
+
+  const entries: PackEntry[] = holidays.flatMap(holiday =>
+    holiday.dates.map(date => ({ date, name: holiday.name }))
+  )
+  const dates = new Set(entries.map(entry => entry.date))
+  const overlaps = (date: string, holiday: KoreanHoliday): boolean =>
+    entries.some(entry => entry.date === date && entry.name !== holiday.name)
+
+  for (const holiday of holidays) {
+    const policy = holiday.substitute
+    if (policy === undefined) {
+      continue
+    }
+
+    const triggered = holiday.dates.some(date => {
+      const weekday = weekdayOf(date)
+      switch (policy) {
+        case 'sunday':
+          return weekday === 0 || overlaps(date, holiday)
+        case 'weekend':
+          return weekday === 0 || weekday === 6 || overlaps(date, holiday)
+        case 'weekendOnly':
+          return weekday === 0 || weekday === 6
+      }
+    })
+    if (!triggered) {
+      continue
+    }
+
+    // The first weekday after the holiday that is not already a day off
+    let substitute = addDays(holiday.dates[holiday.dates.length - 1] ?? '', 1)
+    while (dates.has(substitute) || weekdayOf(substitute) === 0 || weekdayOf(substitute) === 6) {
+      substitute = addDays(substitute, 1)
+    }
+    entries.push({ date: substitute, name: '대체공휴일' })
+    dates.add(substitute)
+  }
+
+  return entries
+}
+
+/**
+ * Generate the public holidays of a region for one year. Lunar holidays are
+ * computed from embedded conversion tables, so no network access is needed.
+ * The result plugs directly into `BusinessRules.holidays`.
+ * @throws {ValidationError} if the region or year is not supported
+ * @example getHolidayPack('zh-cn', 2024) // [{ date: '2024-01-01', name: '元旦', ... }, ...]
+ */
+export function getHolidayPack(region: HolidayPackRegion, year: number): Holiday[] {
+  if (!HOLIDAY_PACK_REGIONS.includes(region)) {
+    throw new ValidationError(`Unsupported holiday pack region: ${region}`, 'region', region)
+  }
+  if (!Number.isInteger(year) || year < HOLIDAY_PACK_MIN_YEAR || year > HOLIDAY_PACK_MAX_YEAR) {
+    throw new ValidationError(
+      `Holiday pack year must be between ${HOLIDAY_PACK_MIN_YEAR} and ${HOLIDAY_PACK_MAX_YEAR}`,
+      'year',
+      year
+    )
+  }
+
+  const entries =
+    region === 'zh-cn'
+      ? getChinaHolidays(year)
+      : region === 'ja'
+        ? getJapanHolidays(year)
+        : getKoreaHolidays(year)
+
+  return entries
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(entry => ({ date: entry.date, name: entry.name, type: 'public' }))
+}
+
+/**
+ * Generate the public holidays of a region for a range of years (inclusive)
+ * @example getHolidayPacks('ko', 2024, 2026)
+ */
+export function getHolidayPacks(
+  region: HolidayPackRegion,
+  startYear: number,
+  endYear: number
+): Holiday[] {
+  const holidays: Holiday[] = []
+  for (let year = startYear; year <= endYear; year++) {
+    holidays.push(...getHolidayPack(region, year))
+  }
+  return holidays
+}
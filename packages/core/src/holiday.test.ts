@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest'
+import dayjs from 'dayjs'
+import {
+  findHoliday,
+  isHolidayOn,
+  getHolidayDate,
+  getObservedDate,
+  applyObservance,
+  getRuleDate,
+  getEasterSunday,
+  DayjsFactory
+} from '../src'
+import type { Holiday } from '../src'
+
+const THANKSGIVING: Holiday = {
+  date: '2020-11-26',
+  name: 'Thanksgiving',
+  type: 'public',
+  rule: { type: 'nthWeekday', month: 11, weekday: 4, nth: 4 }
+}
+
+const MEMORIAL_DAY: Holiday = {
+  date: '2020-05-25',
+  name: 'Memorial Day',
+  type: 'public',
+  rule: { type: 'lastWeekday', month: 5, weekday: 1 }
+}
+
+const EASTER_MONDAY: Holiday = {
+  date: '2020-04-13',
+  name: 'Easter Monday',
+  type: 'public',
+  rule: { type: 'easter', offset: 1 }
+}
+
+describe('getEasterSunday', () => {
+  it('should compute Gregorian Easter Sunday', () => {
+    expect(getEasterSunday(2019)).toBe('2019-04-21')
+    expect(getEasterSunday(2024)).toBe('2024-03-31')
+    expect(getEasterSunday(2025)).toBe('2025-04-20')
+    expect(getEasterSunday(2038)).toBe('2038-04-25')
+  })
+})
+
+describe('getRuleDate', () => {
+  it('should resolve nth weekday of month', () => {
+    expect(getRuleDate({ type: 'nthWeekday', month: 11, weekday: 4, nth: 4 }, 2024)).toBe(
+      '2024-11-28'
+    )
+    expect(getRuleDate({ type: 'nthWeekday', month: 1, weekday: 1, nth: 3 }, 2025)).toBe(
+      '2025-01-20'
+    )
+  })
+
+  it('should return null when the nth weekday does not exist', () => {
+    expect(getRuleDate({ type: 'nthWeekday', month: 2, weekday: 1, nth: 5 }, 2023)).toBeNull()
+  })
+
+  it('should resolve last weekday of month', () => {
+    expect(getRuleDate({ type: 'lastWeekday', month: 5, weekday: 1 }, 2024)).toBe('2024-05-27')
+    expect(getRuleDate({ type: 'lastWeekday', month: 5, weekday: 5 }, 2024)).toBe('2024-05-31')
+  })
+
+  it('should resolve Easter offsets', () => {
+    expect(getRuleDate({ type: 'easter', offset: -2 }, 2024)).toBe('2024-03-29')
+    expect(getRuleDate({ type: 'easter', offset: 1 }, 2024)).toBe('2024-04-01')
+  })
+
+  it('should skip fixed dates missing in a year', () => {
+    expect(getRuleDate({ type: 'fixed', month: 2, day: 29 }, 2023)).toBeNull()
+    expect(getRuleDate({ type: 'fixed', month: 2, day: 29 }, 2024)).toBe('2024-02-29')
+  })
+})
+
+describe('getHolidayDate', () => {
+  it('should only apply rules from the year of date onward', () => {
+    expect(getHolidayDate(THANKSGIVING, 2019)).toBeNull()
+    expect(getHolidayDate(THANKSGIVING, 2024)).toBe('2024-11-28')
+  })
+
+  it('should handle one-off and recurring holidays', () => {
+    const oneOff: Holiday = { date: '2024-06-10', name: 'Dragon Boat', type: 'public' }
+    const recurring: Holiday = { date: '2000-12-25', name: 'Christmas', type: 'public', recurring: true }
+
+    expect(getHolidayDate(oneOff, 2024)).toBe('2024-06-10')
+    expect(getHolidayDate(oneOff, 2025)).toBeNull()
+    expect(getHolidayDate(recurring, 2024)).toBe('2024-12-25')
+  })
+})
+
+describe('isHolidayOn / findHoliday', () => {
+  const holidays = [THANKSGIVING, MEMORIAL_DAY, EASTER_MONDAY]
+
+  it('should match rule-based holidays', () => {
+    expect(isHolidayOn(THANKSGIVING, dayjs('2024-11-28'))).toBe(true)
+    expect(isHolidayOn(THANKSGIVING, dayjs('2024-11-21'))).toBe(false)
+    expect(findHoliday(holidays, dayjs('2024-05-27'))?.name).toBe('Memorial Day')
+    expect(findHoliday(holidays, dayjs('2025-04-21'))?.name).toBe('Easter Monday')
+    expect(findHoliday(holidays, dayjs('2025-04-22'))).toBeNull()
+  })
+
+  it('should be honoured by DayjsFactory.isBusinessDay', () => {
+    const factory = new DayjsFactory({ businessRules: { workdays: [1, 2, 3, 4, 5], holidays } })
+
+    expect(factory.create({ input: '2024-11-28' }).isBusinessDay()).toBe(false)
+    expect(factory.create({ input: '2024-04-01' }).isBusinessDay()).toBe(false)
+    expect(factory.create({ input: '2024-04-02' }).isBusinessDay()).toBe(true)
+  })
+})
+
+describe('holiday observance', () => {
+  const independenceDay = (observance: Holiday['observance']): Holiday => ({
+    date: '2020-07-04',
+    name: 'Independence Day',
+    type: 'public',
+    recurring: true,
+    observance
+  })
+
+  it('should shift weekend dates according to policy', () => {
+    // 2026-07-04 is a Saturday, 2027-07-04 a Sunday
+    expect(getObservedDate(independenceDay('nearestWeekday'), 2026)).toBe('2026-07-03')
+    expect(getObservedDate(independenceDay('nearestWeekday'), 2027)).toBe('2027-07-05')
+    expect(getObservedDate(independenceDay('nextMonday'), 2026)).toBe('2026-07-06')
+    expect(getObservedDate(independenceDay('previousFriday'), 2027)).toBe('2027-07-02')
+    expect(getObservedDate(independenceDay('none'), 2026)).toBe('2026-07-04')
+  })
+
+  it('should leave weekday occurrences untouched', () => {
+    expect(applyObservance('2024-07-04', 'nearestWeekday')).toBe('2024-07-04')
+  })
+
+  it('should match both the observed and the actual date', () => {
+    const holiday = independenceDay('nearestWeekday')
+
+    expect(isHolidayOn(holiday, dayjs('2026-07-03'))).toBe(true)
+    expect(isHolidayOn(holiday, dayjs('2026-07-04'))).toBe(true)
+    expect(isHolidayOn(holiday, dayjs('2026-07-06'))).toBe(false)
+  })
+
+  it('should cross the year boundary', () => {
+    // 2022-01-01 is a Saturday, observed on Friday 2021-12-31
+    const newYear: Holiday = {
+      date: '2020-01-01',
+      name: 'New Year',
+      type: 'public',
+      recurring: true,
+      observance: 'nearestWeekday'
+    }
+
+    expect(isHolidayOn(newYear, dayjs('2021-12-31'))).toBe(true)
+  })
+
+  it('should be honoured by DayjsFactory.isBusinessDay', () => {
+    const factory = new DayjsFactory({
+      businessRules: { workdays: [1, 2, 3, 4, 5], holidays: [independenceDay('nearestWeekday')] }
+    })
+
+    expect(factory.create({ input: '2026-07-03' }).isBusinessDay()).toBe(false)
+    expect(factory.create({ input: '2026-07-06' }).isBusinessDay()).toBe(true)
+  })
+
+  it('should keep the actual date off in a six-day workweek', () => {
+    const factory = new DayjsFactory({
+      businessRules: { workdays: [1, 2, 3, 4, 5, 6], holidays: [independenceDay('nearestWeekday')] }
+    })
+
+    // 2026-07-04 is a Saturday, observed on Friday 2026-07-03
+    expect(factory.create({ input: '2026-07-03' }).isBusinessDay()).toBe(false)
+    expect(factory.create({ input: '2026-07-04' }).isBusinessDay()).toBe(false)
+    expect(factory.create({ input: '2026-07-06' }).isBusinessDay()).toBe(true)
+  })
+})
@@ -0,0 +1,265 @@
+import type { Dayjs } from 'dayjs'
+import type { Holiday, HolidayRule, HolidayObservance } from './types'
+import { DEFAULT_BUSINESS_RULES } from './types'
+import type { HolidayCalendarRegistry } from './registry'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Format year, month (1-12) and day as YYYY-MM-DD
+ */
+function formatYmd(year: number, month: number, day: number): string {
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Number of days in a month (1-12)
+ */
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+/**
+ * Weekday (0 = Sunday) of a calendar date
+ */
+function weekdayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+}
+
+/**
+ * Get Western (Gregorian) Easter Sunday of a year as YYYY-MM-DD
+ * Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+ */
+export function getEasterSunday(year: number): string {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return formatYmd(year, month, day)
+}
+
+/**
+ * Get the date a recurrence rule produces in a year, or null if the rule has
+ * no occurrence that year (e.g. Feb 29 or a missing 5th weekday)
+ */
+export function getRuleDate(rule: HolidayRule, year: number): string | null {
+  switch (rule.type) {
+    case 'fixed':
+      return rule.day <= daysInMonth(year, rule.month)
+        ? formatYmd(year, rule.month, rule.day)
+        : null
+
+    case 'nthWeekday': {
+      const firstWeekday = weekdayOf(year, rule.month, 1)
+      const day = 1 + ((rule.weekday - firstWeekday + 7) % 7) + (rule.nth - 1) * 7
+      return day <= daysInMonth(year, rule.month) ? formatYmd(year, rule.month, day) : null
+    }
+
+    case 'lastWeekday': {
+      const lastDay = daysInMonth(year, rule.month)
+      const lastWeekday = weekdayOf(year, rule.month, lastDay)
+      return formatYmd(year, rule.month, lastDay - ((lastWeekday - rule.weekday + 7) % 7))
+    }
+
+    case 'easter': {
+      const easter = new Date(`${getEasterSunday(year)}T00:00:00Z`)
+      return new Date(easter.getTime() + rule.offset * MS_PER_DAY).toISOString().substring(0, 10)
+    }
+  }
+}
+
+/**
+ * Get the date a holiday falls on in a given year (YYYY-MM-DD), or null if it
+ * does not occur that year
+ */
+export function getHolidayDate(holiday: Holiday, year: number): string | null {
+  const startYear = parseInt(holiday.date.substring(0, 4), 10)
+
+  if (holiday.rule) {
+    return year >= startYear ? getRuleDate(holiday.rule, year) : null
+  }
+
+  if (holiday.recurring === true) {
+    const month = parseInt(holiday.date.substring(5, 7), 10)
+    const day = parseInt(holiday.date.substring(8, 10), 10)
+    return getRuleDate({ type: 'fixed', month, day }, year)
+  }
+
+  return year === startYear ? holiday.date.substring(0, 10) : null
+}
+
+/**
+ * Shift a YYYY-MM-DD date that lands on a weekend according to an observance policy
+ */
+export function applyObservance(dateStr: string, observance: HolidayObservance = 'none'): string {
+  const date = new Date(`${dateStr}T00:00:00Z`)
+  const weekday = date.getUTCDay()
+  if (observance === 'none' || (weekday !== 0 && weekday !== 6)) {
+    return dateStr
+  }
+
+  let shift: number
+  switch (observance) {
+    case 'nearestWeekday':
+      shift = weekday === 6 ? -1 : 1
+      break
+    case 'nextMonday':
+      shift = weekday === 6 ? 2 : 1
+      break
+    case 'previousFriday':
+      shift = weekday === 6 ? -1 : -2
+      break
+  }
+
+  return new Date(date.getTime() + shift * MS_PER_DAY).toISOString().substring(0, 10)
+}
+
+/**
+ * Get the observed day off of a holiday occurrence in a given year
+ * (YYYY-MM-DD), or null if it does not occur that year. The observed date may
+ * fall into the neighbouring year (e.g. Saturday Jan 1 observed on Dec 31).
+ */
+export function getObservedDate(holiday: Holiday, year: number): string | null {
+  const actual = getHolidayDate(holiday, year)
+  return actual === null ? null : applyObservance(actual, holiday.observance)
+}
+
+/**
+ * Check if a holiday falls on the given date. Shifted holidays fall on both
+ * their actual and observed dates, so a workweek that includes the weekend
+ * day keeps the actual date off.
+ */
+export function isHolidayOn(holiday: Holiday, date: Dayjs): boolean {
+  const dateStr = date.format('YYYY-MM-DD')
+  const year = date.year()
+
+  if (holiday.observance === undefined || holiday.observance === 'none') {
+    if (holiday.date === dateStr && !holiday.rule) {
+      return true
+    }
+    // Recurring and rule-based holidays are resolved for the date's year
+    return getHolidayDate(holiday, year) === dateStr
+  }
+
+  // Observed dates can cross the year boundary by up to two days
+  return (
+    getHolidayDate(holiday, year) === dateStr ||
+    getObservedDate(holiday, year) === dateStr ||
+    getObservedDate(holiday, year + 1) === dateStr ||
+    getObservedDate(holiday, year - 1) === dateStr
+  )
+}
+
+/**
+ * Check if a holiday closes the whole day. Partial holidays (workdayWeight
+ * above 0) leave the day a business day.
+ */
+export function isFullDayHoliday(holiday: Holiday | null): boolean {
+  return holiday !== null && (holiday.workdayWeight ?? 0) === 0
+}
+
+/**
+ * Working-day sources of BusinessRules or a plugin configuration
+ */
+export interface WorkdaySource {
+  readonly workdays?: readonly number[]
+  readonly extraWorkdays?: readonly string[]
+}
+
+/**
+ * Check if a date is a scheduled working day, holidays aside: either its
+ * weekday is a workday or it is a make-up workday listed in `extraWorkdays`
+ */
+export function isWorkday(
+  rules: WorkdaySource | undefined,
+  date: Dayjs,
+  defaultWorkdays: readonly number[] = DEFAULT_BUSINESS_RULES.workdays
+): boolean {
+  if ((rules?.workdays ?? defaultWorkdays).includes(date.day())) {
+    return true
+  }
+  return rules?.extraWorkdays?.includes(date.format('YYYY-MM-DD')) === true
+}
+
+/**
+ * Holiday sources of BusinessRules or a plugin configuration
+ */
+export interface HolidaySource {
+  readonly holidays?: readonly Holiday[]
+  readonly calendarId?: string
+  /** Member calendars of a composite calendar */
+  readonly calendars?: readonly HolidaySource[]
+}
+
+const NO_HOLIDAYS: readonly Holiday[] = Object.freeze([])
+
+/**
+ * Merged static + registry holidays, memoized per pair of arrays so that
+ * per-array caches (such as holiday indexes) survive repeated resolution
+ */
+const mergedHolidays = new WeakMap<
+  readonly Holiday[],
+  WeakMap<readonly Holiday[], readonly Holiday[]>
+>()
+
+/**
+ * Holidays of composite calendars, memoized per calendar and reused while the
+ * member holiday arrays are unchanged
+ */
+const compositeHolidays = new WeakMap<
+  HolidaySource,
+  { members: ReadonlyArray<readonly Holiday[]>; holidays: readonly Holiday[] }
+>()
+
+/**
+ * Resolve the effective holidays of business rules: static holidays plus the
+ * current holidays of the registry calendar referenced by `calendarId`. For a
+ * composite calendar, the holidays of every member calendar.
+ */
+export function resolveHolidays(
+  rules: HolidaySource | undefined,
+  registry?: HolidayCalendarRegistry
+): readonly Holiday[] {
+  if (rules?.calendars !== undefined) {
+    const members = rules.calendars.map(calendar => resolveHolidays(calendar, registry))
+    const cached = compositeHolidays.get(rules)
+    if (
+      cached?.members.length === members.length &&
+      cached.members.every((holidays, i) => holidays === members[i])
+    ) {
+      return cached.holidays
+    }
+    const holidays = members.flat()
+    compositeHolidays.set(rules, { members, holidays })
+    return holidays
+  }
+
+  const holidays = rules?.holidays ?? NO_HOLIDAYS
+  if (!registry || rules?.calendarId === undefined) {
+    return holidays
+  }
+
+  const calendarHolidays = registry.getHolidays(rules.calendarId)
+  if (calendarHolidays.length === 0) {
+    return holidays
+  }
+  if (holidays.length === 0) {
+    return calendarHolidays
+  }
+
+  const byCalendar = mergedHolidays.get(holidays) ?? new WeakMap()
+  mergedHolidays.set(holidays, byCalendar)
+  const merged = byCalendar.get(calendarHolidays) ?? [...holidays, ...calendarHolidays]
+  byCalendar.set(calendarHolidays, merged)
+  return merged
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest'
+import dayjs from 'dayjs'
+import {
+  parseICalendar,
+  toICalendar,
+  findHoliday,
+  createHolidayCalendarRegistry,
+  ValidationError
+} from '../src'
+import type { Holiday } from '../src'
+
+const ics = (...events: string[][]): string =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ACME//HR//EN',
+    ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR'
+  ].join('\r\n')
+
+describe('parseICalendar', () => {
+  it('should parse all-day events', () => {
+    const holidays = parseICalendar(
+      ics(
+        ['UID:1', 'DTSTART;VALUE=DATE:20240101', 'DTEND;VALUE=DATE:20240102', 'SUMMARY:New Year'],
+        ['UID:2', 'DTSTART:20240315', 'SUMMARY:Company Day\\, Spring', 'CATEGORIES:COMPANY']
+      )
+    )
+
+    expect(holidays).toEqual([
+      { date: '2024-01-01', name: 'New Year', type: 'public' },
+      { date: '2024-03-15', name: 'Company Day, Spring', type: 'company' }
+    ])
+  })
+
+  it('should expand multi-day events and skip timed or cancelled events', () => {
+    const holidays = parseICalendar(
+      ics(
+        ['DTSTART;VALUE=DATE:20241001', 'DTEND;VALUE=DATE:20241004', 'SUMMARY:国庆节'],
+        ['DTSTART:20241010T090000Z', 'DTEND:20241010T100000Z', 'SUMMARY:All hands'],
+        ['DTSTART;VALUE=DATE:20241224', 'STATUS:CANCELLED', 'SUMMARY:Cancelled']
+      ),
+      { type: 'regional' }
+    )
+
+    expect(holidays.map(holiday => holiday.date)).toEqual([
+      '2024-10-01',
+      '2024-10-02',
+      '2024-10-03'
+    ])
+    expect(holidays[0]?.type).toBe('regional')
+  })
+
+  it('should map yearly recurrences onto recurring holidays and rules', () => {
+    const [christmas, thanksgiving, memorial] = parseICalendar(
+      ics(
+        ['DTSTART;VALUE=DATE:20201225', 'RRULE:FREQ=YEARLY', 'SUMMARY:Christmas'],
+        [
+          'DTSTART;VALUE=DATE:20201126',
+          'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=4TH',
+          'SUMMARY:Thanksgiving'
+        ],
+        [
+          'DTSTART;VALUE=DATE:20200525',
+          'RRULE:FREQ=YEARLY;BYDAY=-1MO;BYMONTH=5',
+          'SUMMARY:Memorial Day'
+        ]
+      )
+    )
+
+    expect(christmas).toEqual({
+      date: '2020-12-25',
+      name: 'Christmas',
+      type: 'public',
+      recurring: true
+    })
+    expect(thanksgiving?.rule).toEqual({ type: 'nthWeekday', month: 11, weekday: 4, nth: 4 })
+    expect(memorial?.rule).toEqual({ type: 'lastWeekday', month: 5, weekday: 1 })
+    expect(findHoliday([thanksgiving as Holiday], dayjs('2024-11-28'))?.name).toBe('Thanksgiving')
+  })
+
+  it('should expand bounded recurrences', () => {
+    const byCount = parseICalendar(
+      ics(['DTSTART;VALUE=DATE:20240501', 'RRULE:FREQ=YEARLY;COUNT=3', 'SUMMARY:Labour Day'])
+    )
+    const byUntil = parseICalendar(
+      ics(['DTSTART;VALUE=DATE:20240101', 'RRULE:FREQ=YEARLY;UNTIL=20251231T000000Z', 'SUMMARY:NY'])
+    )
+
+    expect(byCount.map(holiday => holiday.date)).toEqual(['2024-05-01', '2025-05-01', '2026-05-01'])
+    expect(byCount[0]?.recurring).toBeUndefined()
+    expect(byUntil.map(holiday => holiday.date)).toEqual(['2024-01-01', '2025-01-01'])
+  })
+
+  it('should unfold lines and unescape text', () => {
+    const holidays = parseICalendar(
+      'BEGIN:VEVENT\r\nDTSTART;VALUE=DATE:20240704\r\nSUMMARY:Independence\r\n  Day\; observed\r\nEND:VEVENT\r\n'
+    )
+    expect(holidays[0]?.name).toBe('Independence Day; observed')
+  })
+
+  it('should reject unsupported or invalid events', () => {
+    expect(() =>
+      parseICalendar(ics(['DTSTART;VALUE=DATE:20240101', 'RRULE:FREQ=WEEKLY', 'SUMMARY:Weekly']))
+    ).toThrow(ValidationError)
+    expect(() =>
+      parseICalendar(
+        ics(['DTSTART;VALUE=DATE:20240101', 'RRULE:FREQ=YEARLY;INTERVAL=2', 'SUMMARY:X'])
+      )
+    ).toThrow(ValidationError)
+    for (const rrule of ['FREQ=YEARLY;BYMONTH=1,7', 'FREQ=YEARLY;BYMONTH=1;BYMONTHDAY=1,15']) {
+      expect(() =>
+        parseICalendar(ics(['DTSTART;VALUE=DATE:20240101', `RRULE:${rrule}`, 'SUMMARY:X']))
+      ).toThrow('Unsupported recurrence rule')
+    }
+    expect(() => parseICalendar(ics(['DTSTART;VALUE=DATE:20241340', 'SUMMARY:Bad date']))).toThrow(
+      ValidationError
+    )
+    expect(() =>
+      parseICalendar(ics(['DTSTART;VALUE=DATE:20240101', 'SUMMARY:<script>alert(1)</script>']))
+    ).toThrow(ValidationError)
+    expect(() => parseICalendar(ics(['DTSTART;VALUE=DATE:20240101']))).toThrow(ValidationError)
+  })
+})
+
+describe('toICalendar', () => {
+  const holidays: Holiday[] = [
+    {
+      date: '2024-01-01',
+      name: 'New Year',
+      type: 'public',
+      recurring: true,
+      observance: 'nearestWeekday'
+    },
+    {
+      date: '2020-01-01',
+      name: 'Thanksgiving',
+      type: 'public',
+      rule: { type: 'nthWeekday', month: 11, weekday: 4, nth: 4 }
+    },
+    { date: '2024-03-15', name: 'Offsite, Day 1', type: 'company', workdayWeight: 0.5 },
+    {
+      date: '2024-01-01',
+      name: 'Good Friday',
+      type: 'regional',
+      rule: { type: 'easter', offset: -2 }
+    }
+  ]
+  const timestamp = new Date('2024-01-01T00:00:00Z')
+
+  it('should export events with yearly recurrence rules', () => {
+    const output = toICalendar({ holidays }, { name: 'ACME', timestamp, toYear: 2025 })
+    const lines = output.split('\r\n')
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR')
+    expect(lines).toContain('X-WR-CALNAME:ACME')
+    expect(lines).toContain('DTSTAMP:20240101T000000Z')
+    expect(lines).toContain('RRULE:FREQ=YEARLY')
+    // DTSTART is the first occurrence of the rule
+    expect(lines).toContain('DTSTART;VALUE=DATE:20201126')
+    expect(lines).toContain('RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=4TH')
+    expect(lines).toContain('SUMMARY:Offsite\\, Day 1')
+    // Easter-based rules are expanded per year
+    expect(lines).toContain('DTSTART;VALUE=DATE:20240329')
+    expect(lines).toContain('DTSTART;VALUE=DATE:20250418')
+    expect(output.endsWith('END:VCALENDAR\r\n')).toBe(true)
+  })
+
+  it('should round-trip through parseICalendar', () => {
+    const parsed = parseICalendar(toICalendar({ holidays: holidays.slice(0, 3) }, { timestamp }))
+    expect(parsed).toEqual([holidays[0], { ...holidays[1], date: '2020-11-26' }, holidays[2]])
+  })
+
+  it('should include registry calendars and fold long lines', () => {
+    const registry = createHolidayCalendarRegistry()
+    registry.set('acme:cn', [{ date: '2024-10-01', name: '国庆节'.repeat(20), type: 'public' }])
+
+    const output = toICalendar({ calendarId: 'acme:cn' }, { timestamp }, registry)
+    for (const line of output.split('\r\n')) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75)
+    }
+    expect(parseICalendar(output)[0]?.name).toBe('国庆节'.repeat(20))
+  })
+})
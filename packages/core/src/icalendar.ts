@@ -0,0 +1,471 @@
+import type { Holiday, HolidayObservance, HolidayRule } from './types'
+import type { HolidayCalendarRegistry } from './registry'
+import { getRuleDate, resolveHolidays } from './holiday'
+import type { HolidaySource } from './holiday'
+import { validateHoliday, ValidationError } from './validator'
+
+/**
+ * Options for parsing iCalendar holidays
+ */
+export interface ICalendarImportOptions {
+  /** Holiday type when an event has no matching CATEGORIES value (defaults to public) */
+  readonly type?: Holiday['type']
+}
+
+/**
+ * Options for exporting holidays as iCalendar
+ */
+export interface ICalendarExportOptions {
+  /** Calendar name shown by calendar clients (X-WR-CALNAME) */
+  readonly name?: string
+  /** First year of expanded occurrences for rules without an RRULE equivalent (Easter) */
+  readonly fromYear?: number
+  /** Last year of expanded occurrences (defaults to fromYear + 9) */
+  readonly toYear?: number
+  /** DTSTAMP of the exported events (defaults to now) */
+  readonly timestamp?: Date
+}
+
+const PRODUCT_ID = '-//dayjs-business//Business Calendar//EN'
+
+/**
+ * Custom property carrying the weekend observance of a holiday
+ */
+const OBSERVANCE_PROPERTY = 'X-DAYJS-BUSINESS-OBSERVANCE'
+
+/**
+ * Custom property carrying the workday weight of a partial holiday
+ */
+const WORKDAY_WEIGHT_PROPERTY = 'X-DAYJS-BUSINESS-WORKDAY-WEIGHT'
+
+const HOLIDAY_TYPES: ReadonlyArray<Holiday['type']> = ['public', 'company', 'regional']
+
+/**
+ * Maximum occurrences expanded from a bounded (COUNT/UNTIL) recurrence
+ */
+const MAX_OCCURRENCES = 200
+
+/**
+ * Content lines are folded at 75 octets (RFC 5545 section 3.1)
+ */
+const MAX_LINE_OCTETS = 75
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+/**
+ * Unfold continuation lines and split content lines into name, parameters and value
+ */
+function parseContentLines(source: string): ContentLine[] {
+  const unfolded = source.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '')
+  const lines: ContentLine[] = []
+
+  for (const line of unfolded.split('\n')) {
+    if (line.trim() === '') {
+      continue
+    }
+
+    // Parameter values may be quoted and contain ":" or ";"
+    let separator = -1
+    let quoted = false
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') {
+        quoted = !quoted
+      } else if (line[i] === ':' && !quoted) {
+        separator = i
+        break
+      }
+    }
+    if (separator === -1) {
+      throw new ValidationError('Invalid iCalendar content line', 'icalendar', line)
+    }
+
+    const [name = '', ...paramParts] = line.substring(0, separator).split(';')
+    const params: Record<string, string> = {}
+    for (const part of paramParts) {
+      const equals = part.indexOf('=')
+      if (equals > 0) {
+        params[part.substring(0, equals).toUpperCase()] = part
+          .substring(equals + 1)
+          .replace(/^"|"$/g, '')
+      }
+    }
+    lines.push({ name: name.toUpperCase(), params, value: line.substring(separator + 1) })
+  }
+
+  return lines
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  )
+}
+
+function escapeText(value: string): string {
+  return value.replace(/([\\;,])/g, '\\$1').replace(/\r?\n/g, '\\n')
+}
+
+function shiftDate(dateStr: string, days: number): string {
+  const time = new Date(`${dateStr}T00:00:00Z`).getTime()
+  return new Date(time + days * MS_PER_DAY).toISOString().substring(0, 10)
+}
+
+/**
+ * Convert an iCalendar DATE (YYYYMMDD) to YYYY-MM-DD
+ */
+function parseDateValue(value: string, field: string): string {
+  const match = /^(\d{4})(\d{2})(\d{2})$/.exec(value)
+  if (!match) {
+    throw new ValidationError('Invalid iCalendar date', field, value)
+  }
+  const date = `${match[1]}-${match[2]}-${match[3]}`
+  if (Number.isNaN(new Date(`${date}T00:00:00Z`).getTime())) {
+    throw new ValidationError('Invalid iCalendar date', field, value)
+  }
+  return date
+}
+
+function formatDateValue(dateStr: string): string {
+  return dateStr.substring(0, 10).replace(/-/g, '')
+}
+
+function formatTimestamp(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+}
+
+/**
+ * Number of days covered by an all-day event (DTEND is exclusive)
+ */
+function getEventDays(event: Map<string, ContentLine>, start: string): number {
+  const end = event.get('DTEND')
+  if (end) {
+    const endDate = parseDateValue(end.value.substring(0, 8), 'DTEND')
+    return Math.max(
+      1,
+      Math.round(
+        (Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / MS_PER_DAY
+      )
+    )
+  }
+
+  const duration = event.get('DURATION')
+  if (duration) {
+    const match = /^P(?:(\d+)W|(\d+)D)$/.exec(duration.value)
+    if (!match) {
+      throw new ValidationError('Unsupported all-day event duration', 'DURATION', duration.value)
+    }
+    return match[1] !== undefined ? parseInt(match[1], 10) * 7 : parseInt(match[2] ?? '1', 10)
+  }
+
+  return 1
+}
+
+/**
+ * Yearly recurrence parsed from an RRULE: a holiday rule (null when it repeats
+ * the DTSTART month and day) and an optional bound
+ */
+interface YearlyRecurrence {
+  rule: HolidayRule | null
+  count?: number
+  until?: string
+}
+
+function parseRecurrence(value: string, start: string): YearlyRecurrence {
+  const parts = new Map<string, string>()
+  for (const part of value.split(';')) {
+    const [key = '', partValue = ''] = part.split('=')
+    parts.set(key.toUpperCase(), partValue.toUpperCase())
+  }
+
+  if (parts.get('FREQ') !== 'YEARLY') {
+    throw new ValidationError('Only yearly recurrence rules are supported', 'RRULE', value)
+  }
+  const supported = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYMONTH', 'BYMONTHDAY', 'BYDAY', 'WKST']
+  const interval = parts.get('INTERVAL')
+  if ([...parts.keys()].some(key => !supported.includes(key)) || (interval ?? '1') !== '1') {
+    throw new ValidationError('Unsupported recurrence rule', 'RRULE', value)
+  }
+  // A holiday has one month and day: reject lists such as BYMONTH=1,7
+  if (['BYMONTH', 'BYMONTHDAY'].some(key => !/^\d{1,2}$/.test(parts.get(key) ?? '1'))) {
+    throw new ValidationError('Unsupported recurrence rule', 'RRULE', value)
+  }
+
+  const month = parseInt(parts.get('BYMONTH') ?? start.substring(5, 7), 10)
+  const byDay = parts.get('BYDAY')
+  const byMonthDay = parts.get('BYMONTHDAY')
+  let rule: HolidayRule | null = null
+
+  if (byDay !== undefined) {
+    const match = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(byDay)
+    const nth = parseInt(match?.[1] ?? '', 10)
+    const weekday = WEEKDAY_CODES.indexOf(match?.[2] ?? '')
+    if (!match || byMonthDay !== undefined || (nth !== -1 && !(nth >= 1 && nth <= 5))) {
+      throw new ValidationError('Unsupported recurrence rule', 'RRULE', value)
+    }
+    rule =
+      nth === -1
+        ? { type: 'lastWeekday', month, weekday }
+        : { type: 'nthWeekday', month, weekday, nth: nth as 1 | 2 | 3 | 4 | 5 }
+  } else {
+    const day = parseInt(byMonthDay ?? start.substring(8, 10), 10)
+    if (
+      month !== parseInt(start.substring(5, 7), 10) ||
+      day !== parseInt(start.substring(8, 10), 10)
+    ) {
+      rule = { type: 'fixed', month, day }
+    }
+  }
+
+  const count = parts.get('COUNT')
+  const until = parts.get('UNTIL')
+  return {
+    rule,
+    count: count !== undefined ? parseInt(count, 10) : undefined,
+    until: until !== undefined ? parseDateValue(until.substring(0, 8), 'RRULE') : undefined
+  }
+}
+
+/**
+ * Convert one VEVENT into holidays (one per day of a multi-day event)
+ */
+function eventToHolidays(
+  event: Map<string, ContentLine>,
+  options: ICalendarImportOptions
+): Holiday[] {
+  const dtstart = event.get('DTSTART')
+  if (!dtstart) {
+    throw new ValidationError('Event is missing DTSTART', 'DTSTART', undefined)
+  }
+  // Holidays are whole days: timed events (meetings, half-day notices) are skipped
+  if (dtstart.params.VALUE !== 'DATE' && !/^\d{8}$/.test(dtstart.value)) {
+    return []
+  }
+  if (event.get('STATUS')?.value.toUpperCase() === 'CANCELLED') {
+    return []
+  }
+
+  const start = parseDateValue(dtstart.value, 'DTSTART')
+  const categories = (event.get('CATEGORIES')?.value ?? '').toLowerCase().split(',')
+  const observance = event.get(OBSERVANCE_PROPERTY)?.value
+  const workdayWeight = event.get(WORKDAY_WEIGHT_PROPERTY)?.value
+  const details = {
+    name: unescapeText(event.get('SUMMARY')?.value ?? '').trim(),
+    type: HOLIDAY_TYPES.find(type => categories.includes(type)) ?? options.type ?? 'public',
+    ...(observance !== undefined ? { observance: observance as HolidayObservance } : {}),
+    ...(workdayWeight !== undefined ? { workdayWeight: Number(workdayWeight) } : {})
+  }
+  const days = getEventDays(event, start)
+  const datesFrom = (first: string): string[] =>
+    Array.from({ length: days }, (_, i) => shiftDate(first, i))
+
+  const rrule = event.get('RRULE')
+  if (!rrule) {
+    return datesFrom(start).map(date => ({ date, ...details }))
+  }
+
+  const recurrence = parseRecurrence(rrule.value, start)
+  if (recurrence.rule !== null && days > 1) {
+    throw new ValidationError('Multi-day events cannot recur by rule', 'RRULE', rrule.value)
+  }
+
+  // Unbounded recurrences map onto recurring holidays or holiday rules
+  if (recurrence.count === undefined && recurrence.until === undefined) {
+    return recurrence.rule === null
+      ? datesFrom(start).map(date => ({ date, ...details, recurring: true }))
+      : [{ date: start, ...details, rule: recurrence.rule }]
+  }
+
+  // Bounded recurrences are expanded into one-off holidays
+  const rule: HolidayRule = recurrence.rule ?? {
+    type: 'fixed',
+    month: parseInt(start.substring(5, 7), 10),
+    day: parseInt(start.substring(8, 10), 10)
+  }
+  const startYear = parseInt(start.substring(0, 4), 10)
+  const limit = Math.min(recurrence.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES)
+  const holidays: Holiday[] = []
+  for (
+    let year = startYear, found = 0;
+    found < limit && year < startYear + MAX_OCCURRENCES;
+    year++
+  ) {
+    const first = getRuleDate(rule, year)
+    if (first === null || first < start) {
+      continue
+    }
+    if (recurrence.until !== undefined && first > recurrence.until) {
+      break
+    }
+    holidays.push(...datesFrom(first).map(date => ({ date, ...details })))
+    found++
+  }
+  return holidays
+}
+
+/**
+ * Parse holidays from an iCalendar (RFC 5545) document, e.g. an .ics file
+ * published by an HR system. All-day VEVENTs become holidays: yearly RRULEs
+ * map to recurring holidays or nthWeekday/lastWeekday/fixed rules, bounded
+ * recurrences (COUNT/UNTIL) are expanded and multi-day events yield one
+ * holiday per day. Timed and cancelled events are skipped.
+ * @throws {ValidationError} if the document, a recurrence rule or a holiday is invalid
+ * @example parseICalendar(fs.readFileSync('holidays.ics', 'utf8'), { type: 'company' })
+ */
+export function parseICalendar(source: string, options: ICalendarImportOptions = {}): Holiday[] {
+  if (typeof source !== 'string') {
+    throw new ValidationError('iCalendar source must be a string', 'icalendar', source)
+  }
+
+  const holidays: Holiday[] = []
+  let event: Map<string, ContentLine> | null = null
+
+  for (const line of parseContentLines(source)) {
+    const component = line.value.toUpperCase()
+    if (line.name === 'BEGIN' && component === 'VEVENT') {
+      event = new Map()
+    } else if (line.name === 'END' && component === 'VEVENT') {
+      if (event) {
+        holidays.push(...eventToHolidays(event, options))
+      }
+      event = null
+    } else if (event && !event.has(line.name)) {
+      event.set(line.name, line)
+    }
+  }
+
+  for (const holiday of holidays) {
+    validateHoliday(holiday)
+  }
+  return holidays
+}
+
+/**
+ * UTF-8 length of a string, for line folding
+ */
+function octetLength(value: string): number {
+  let length = 0
+  for (const char of value) {
+    const code = char.codePointAt(0) ?? 0
+    length += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4
+  }
+  return length
+}
+
+/**
+ * Fold a content line at 75 octets without splitting characters
+ */
+function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  for (const char of line) {
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (octetLength(current + char) > limit) {
+      parts.push(current)
+      current = ''
+    }
+    current += char
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+/**
+ * RRULE equivalent of a holiday, or null for one-off holidays
+ */
+function toRecurrenceRule(holiday: Holiday): string | null {
+  const rule = holiday.rule
+  if (!rule) {
+    return holiday.recurring === true ? 'FREQ=YEARLY' : null
+  }
+
+  switch (rule.type) {
+    case 'fixed':
+      return `FREQ=YEARLY;BYMONTH=${rule.month};BYMONTHDAY=${rule.day}`
+    case 'nthWeekday':
+      return `FREQ=YEARLY;BYMONTH=${rule.month};BYDAY=${rule.nth}${WEEKDAY_CODES[rule.weekday] ?? ''}`
+    case 'lastWeekday':
+      return `FREQ=YEARLY;BYMONTH=${rule.month};BYDAY=-1${WEEKDAY_CODES[rule.weekday] ?? ''}`
+    case 'easter':
+      return null
+  }
+}
+
+/**
+ * Export the holidays of business rules (including their registry calendar)
+ * as an iCalendar document for calendar clients. Recurring holidays and
+ * fixed/nthWeekday/lastWeekday rules become yearly RRULEs; Easter-based rules
+ * have no RRULE equivalent and are expanded for fromYear..toYear. Observance
+ * and workday weight are kept in custom properties so that parseICalendar
+ * round-trips them.
+ * @example toICalendar({ holidays }, { name: 'ACME holidays' })
+ */
+export function toICalendar(
+  rules: HolidaySource,
+  options: ICalendarExportOptions = {},
+  registry?: HolidayCalendarRegistry
+): string {
+  const timestamp = formatTimestamp(options.timestamp ?? new Date())
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN']
+  if (options.name !== undefined) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`)
+  }
+
+  resolveHolidays(rules, registry).forEach((holiday, index) => {
+    validateHoliday(holiday)
+
+    let occurrences: string[]
+    if (holiday.rule?.type === 'easter') {
+      const fromYear = options.fromYear ?? parseInt(holiday.date.substring(0, 4), 10)
+      const toYear = options.toYear ?? fromYear + 9
+      occurrences = []
+      for (let year = fromYear; year <= toYear; year++) {
+        occurrences.push(getRuleDate(holiday.rule, year) ?? '')
+      }
+    } else if (holiday.rule) {
+      // DTSTART must be an occurrence of the rule
+      const year = parseInt(holiday.date.substring(0, 4), 10)
+      occurrences = [getRuleDate(holiday.rule, year) ?? holiday.date.substring(0, 10)]
+    } else {
+      occurrences = [holiday.date.substring(0, 10)]
+    }
+
+    const rrule = toRecurrenceRule(holiday)
+    occurrences.forEach(date => {
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${formatDateValue(date)}-${index}@dayjs-business`,
+        `DTSTAMP:${timestamp}`,
+        `DTSTART;VALUE=DATE:${formatDateValue(date)}`,
+        `DTEND;VALUE=DATE:${formatDateValue(shiftDate(date, 1))}`,
+        `SUMMARY:${escapeText(holiday.name)}`,
+        `CATEGORIES:${holiday.type.toUpperCase()}`,
+        'TRANSP:TRANSPARENT'
+      )
+      if (rrule !== null) {
+        lines.push(`RRULE:${rrule}`)
+      }
+      if (holiday.observance !== undefined && holiday.observance !== 'none') {
+        lines.push(`${OBSERVANCE_PROPERTY}:${holiday.observance}`)
+      }
+      if (holiday.workdayWeight !== undefined && holiday.workdayWeight > 0) {
+        lines.push(`${WORKDAY_WEIGHT_PROPERTY}:${holiday.workdayWeight}`)
+      }
+      lines.push('END:VEVENT')
+    })
+  })
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
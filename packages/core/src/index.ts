@@ -1,6 +1,105 @@
 // Core exports
 export { DayjsFactory, createDayjsFactory, createDayjs, ValidationError } from './factory'
 
+// Holiday calendar exports
+export { HolidayCalendarRegistry, createHolidayCalendarRegistry, calendarKey } from './registry'
+export { HolidayIndex, getHolidayIndex, findHoliday } from './holiday-index'
+export {
+  isHolidayOn,
+  getHolidayDate,
+  getObservedDate,
+  applyObservance,
+  getRuleDate,
+  getEasterSunday,
+  resolveHolidays,
+  isWorkday,
+  isFullDayHoliday,
+  type HolidaySource,
+  type WorkdaySource
+} from './holiday'
+export {
+  getHolidayPack,
+  getHolidayPacks,
+  HOLIDAY_PACK_REGIONS,
+  HOLIDAY_PACK_MIN_YEAR,
+  HOLIDAY_PACK_MAX_YEAR,
+  type HolidayPackRegion
+} from './holiday-packs'
+export {
+  parseICalendar,
+  toICalendar,
+  type ICalendarImportOptions,
+  type ICalendarExportOptions
+} from './icalendar'
+export {
+  generateDateDimension,
+  toDateDimensionCsv,
+  toDateDimensionJsonl,
+  type DateDimensionOptions,
+  type DateDimensionRow
+} from './date-dimension'
+export {
+  countBusinessDays,
+  addBusinessDays,
+  businessDaysBetween,
+  countFractionalBusinessDays,
+  fractionalBusinessDaysBetween,
+  isBusinessDate,
+  getBusinessDayWeight,
+  getNthBusinessDay,
+  toDayNumber,
+  type BusinessDaySource
+} from './business-days'
+export { createCompositeCalendar, intersectCalendars, unionCalendars } from './composite'
+export { rollDate, isWeekendDay } from './roll'
+export {
+  getFiscalYear,
+  getFiscalYearName,
+  getFiscalQuarter,
+  getFiscalPeriod,
+  getFiscalWeek,
+  getFiscalWeeksInYear,
+  getFiscalYearStart,
+  getFiscalYearEnd,
+  getFiscalQuarterStart,
+  getFiscalQuarterEnd,
+  getFiscalPeriodStart,
+  getFiscalPeriodEnd,
+  getFiscalQuarterInfo,
+  getFiscalPeriodInfo,
+  addFiscalQuarters,
+  addFiscalPeriods,
+  fiscalQuartersBetween,
+  iterateFiscalQuarters,
+  iterateFiscalYears
+} from './fiscal'
+export { FiscalCalendar, createFiscalCalendar } from './fiscal-calendar'
+export {
+  BILLING_CYCLE_INTERVALS,
+  toBillingInterval,
+  getCycleMonths,
+  getCycleDays,
+  getAnchoredBillingDate,
+  getAnchoredBillingIndex,
+  getNextAnchoredBillingDate,
+  getPreviousAnchoredBillingDate
+} from './billing'
+export {
+  isWithinBusinessHours,
+  addBusinessHours,
+  addBusinessMinutes,
+  businessMinutesBetween,
+  type BusinessHoursSource
+} from './business-hours'
+export {
+  lunarToSolar,
+  getLunarLeapMonth,
+  getLunarMonthDays,
+  LUNAR_MIN_YEAR,
+  LUNAR_MAX_YEAR,
+  type LunarCalendar
+} from './lunar'
+
 // Type exports
 export type {
   ISO8601String,
@@ -8,7 +107,15 @@ export type {
   LocaleCode,
   TimezoneId,
   Holiday,
+  HolidayRule,
+  HolidayObservance,
+  HolidayCalendarSnapshot,
+  HolidayCalendarListener,
+  BusinessHours,
+  BusinessHoursWindow,
   BusinessRules,
+  CalendarCombination,
+  CompositeCalendar,
   DayjsBusinessConfig,
   CreateDayjsOptions,
   PluginContext,
@@ -16,14 +123,28 @@ export type {
   DateInput,
   DurationUnit,
   SubscriptionCycle,
+  BillingCycle,
+  BillingInterval,
+  BillingIntervalUnit,
   FinancialQuarter,
+  FinancialPeriod,
+  FiscalYearConfig,
+  FiscalWeekPattern,
+  FiscalYearEnd,
+  FiscalYearLabel,
   DateRange,
   BillingDate,
   TimezoneConversionResult
 } from './types'
 
 // Constants exports
-export { DEFAULT_BUSINESS_RULES, DEFAULT_CONFIG } from './types'
+export {
+  DEFAULT_BUSINESS_RULES,
+  DEFAULT_BUSINESS_HOURS,
+  DEFAULT_CONFIG,
+  DEFAULT_FISCAL_YEAR,
+  RollConvention
+} from './types'
 
 // Validation exports
 export {
@@ -33,6 +154,12 @@ export {
   validateISO8601,
   validateBusinessRules,
   validateHoliday,
+  validateHolidayRule,
+  validateCalendarId,
+  validateBusinessHours,
+  validateCalendarCombination,
+  validateFiscalYearConfig,
+  validateBillingInterval,
   sanitizeString,
   validatePositiveInteger,
   validateRange
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { lunarToSolar, getLunarLeapMonth, getLunarMonthDays, ValidationError } from '../src'
+
+describe('lunarToSolar', () => {
+  it('should convert Chinese new year dates', () => {
+    expect(lunarToSolar(1900, 1, 1)).toBe('1900-01-31')
+    expect(lunarToSolar(2020, 1, 1)).toBe('2020-01-25')
+    expect(lunarToSolar(2021, 1, 1)).toBe('2021-02-12')
+    expect(lunarToSolar(2022, 1, 1)).toBe('2022-02-01')
+    expect(lunarToSolar(2023, 1, 1)).toBe('2023-01-22')
+    expect(lunarToSolar(2024, 1, 1)).toBe('2024-02-10')
+    expect(lunarToSolar(2025, 1, 1)).toBe('2025-01-29')
+    expect(lunarToSolar(2026, 1, 1)).toBe('2026-02-17')
+  })
+
+  it('should place new moons near midnight on the right day', () => {
+    // 2027-02-06 23:56 and 2030-02-03 00:07 Beijing time
+    expect(lunarToSolar(2027, 1, 1)).toBe('2027-02-06')
+    expect(lunarToSolar(2030, 1, 1)).toBe('2030-02-03')
+    expect(lunarToSolar(1954, 1, 1)).toBe('1954-02-03')
+    expect(lunarToSolar(2012, 7, 1)).toBe('2012-08-17')
+    expect(lunarToSolar(2018, 10, 1)).toBe('2018-11-08')
+    expect(getLunarLeapMonth(1987)).toBe(6)
+  })
+
+  it('should cover the table through 2100', () => {
+    expect(lunarToSolar(2028, 1, 1)).toBe('2028-01-26')
+    expect(lunarToSolar(2050, 1, 1)).toBe('2050-01-23')
+    expect(lunarToSolar(2100, 1, 1)).toBe('2100-02-09')
+    expect(lunarToSolar(2100, 12, 1)).toBe('2100-12-31')
+    expect(getLunarLeapMonth(2033)).toBe(11)
+    expect(lunarToSolar(2033, 11, 1, { leap: true })).toBe('2033-12-22')
+    expect(lunarToSolar(2099, 2, 1, { leap: true })).toBe('2099-03-22')
+  })
+
+  it('should convert Mid-Autumn dates', () => {
+    expect(lunarToSolar(2023, 8, 15)).toBe('2023-09-29')
+    expect(lunarToSolar(2024, 8, 15)).toBe('2024-09-17')
+    expect(lunarToSolar(2025, 8, 15)).toBe('2025-10-06')
+    expect(lunarToSolar(2026, 8, 15)).toBe('2026-09-25')
+  })
+
+  it('should place leap months after the regular month', () => {
+    expect(getLunarLeapMonth(2023)).toBe(2)
+    expect(lunarToSolar(2023, 2, 1)).toBe('2023-02-20')
+    expect(lunarToSolar(2023, 2, 1, { leap: true })).toBe('2023-03-22')
+    expect(lunarToSolar(2023, 3, 1)).toBe('2023-04-20')
+    expect(getLunarLeapMonth(2024)).toBe(0)
+  })
+
+  it('should support the Korean calendar where it differs', () => {
+    // The 1997 new moon falls on different days in UTC+8 and UTC+9
+    expect(lunarToSolar(1997, 1, 1)).toBe('1997-02-07')
+    expect(lunarToSolar(1997, 1, 1, { calendar: 'korean' })).toBe('1997-02-08')
+    expect(lunarToSolar(2024, 8, 15, { calendar: 'korean' })).toBe('2024-09-17')
+  })
+
+  it('should reject dates that do not exist', () => {
+    expect(() => lunarToSolar(2024, 2, 1, { leap: true })).toThrow(ValidationError)
+    expect(() => lunarToSolar(2024, 13, 1)).toThrow(ValidationError)
+    expect(() => lunarToSolar(1899, 1, 1)).toThrow(ValidationError)
+    expect(() => lunarToSolar(2101, 1, 1)).toThrow(ValidationError)
+    const days = getLunarMonthDays(2024, 1)
+    expect(() => lunarToSolar(2024, 1, days + 1)).toThrow(ValidationError)
+  })
+})
@@ -0,0 +1,190 @@
+import { ValidationError } from './validator'
+
+/**
+ * Lunisolar calendar variant
+ * - `chinese`: Chinese calendar (UTC+8 reckoning), used for zh-cn holidays
+ * - `korean`: Korean calendar (Dangi, UTC+9 reckoning), used for ko holidays
+ */
+export type LunarCalendar = 'chinese' | 'korean'
+
+/**
+ * First and last lunar year covered by the conversion tables
+ */
+export const LUNAR_MIN_YEAR = 1900
+export const LUNAR_MAX_YEAR = 2100
+
+/**
+ * Lunar year tables, one entry per lunar year from LUNAR_MIN_YEAR.
+ *
+ * The Chinese table is generated offline from astronomical new moons and
+ * solar terms (Meeus) reckoned in UTC+8, or Beijing local time before 1929;
+ * ICU misplaces several new moons that fall within minutes of midnight, e.g.
+ * the 2027 and 2030 new years. The Korean table comes from the ICU `dangi`
+ * calendar. Each entry encodes a year's months:
+ * - bits 0-3: leap month number (0 = no leap month)
+ * - bits 4-15: month sizes for months 12..1 (bit 15 = month 1; 1 = 30 days, 0 = 29 days)
+ * - bit 16: size of the leap month (1 = 30 days)
+ */
+const LUNAR_YEAR_INFO: Record<LunarCalendar, readonly number[]> = {
+  chinese: [
+    0x04bd8, 0x04ae0, 0x0a570, 0x054d5, 0x0d260, 0x0d950, 0x15554, 0x056a0, 0x09ad0, 0x055d2,
+    0x04ae0, 0x0a5b6, 0x0a4d0, 0x0d250, 0x1d255, 0x0b540, 0x0d6a0, 0x18da3, 0x095b0, 0x14977,
+    0x04970, 0x0a4b0, 0x1b0b6, 0x06a50, 0x06d40, 0x1ab54, 0x02b60, 0x09570, 0x052f2, 0x04970,
+    0x06566, 0x0d4a0, 0x0ea50, 0x16a95, 0x05ad0, 0x02b60, 0x186e3, 0x092e0, 0x1c8d7, 0x0c950,
+    0x0d4a0, 0x1d8a6, 0x0b550, 0x056a0, 0x1a5b4, 0x025d0, 0x092d0, 0x0d2b2, 0x0a950, 0x0b557,
+    0x06ca0, 0x0b550, 0x15355, 0x04da0, 0x0a5b0, 0x14573, 0x052b0, 0x0a9a8, 0x0e950, 0x06aa0,
+    0x0aea6, 0x0ab50, 0x04b60, 0x0aae4, 0x0a570, 0x05260, 0x0f263, 0x0d950, 0x05b57, 0x056a0,
+    0x096d0, 0x04dd5, 0x04ad0, 0x0a4d0, 0x0d4d4, 0x0d250, 0x0d558, 0x0b540, 0x0b6a0, 0x195a6,
+    0x095b0, 0x049b0, 0x0a974, 0x0a4b0, 0x0b27a, 0x06a50, 0x06d40, 0x0af46, 0x0ab60, 0x09570,
+    0x04af5, 0x04970, 0x064b0, 0x074a3, 0x0ea50, 0x06b58, 0x05ac0, 0x0ab60, 0x096d5, 0x092e0,
+    0x0c960, 0x0d954, 0x0d4a0, 0x0da50, 0x07552, 0x056a0, 0x0abb7, 0x025d0, 0x092d0, 0x0cab5,
+    0x0a950, 0x0b4a0, 0x0baa4, 0x0ad50, 0x055d9, 0x04ba0, 0x0a5b0, 0x15176, 0x052b0, 0x0a930,
+    0x07954, 0x06aa0, 0x0ad50, 0x05b52, 0x04b60, 0x0a6e6, 0x0a4e0, 0x0d260, 0x0ea65, 0x0d530,
+    0x05aa0, 0x076a3, 0x096d0, 0x04afb, 0x04ad0, 0x0a4d0, 0x1d0b6, 0x0d250, 0x0d520, 0x0dd45,
+    0x0b5a0, 0x056d0, 0x055b2, 0x049b0, 0x0a577, 0x0a4b0, 0x0aa50, 0x1b255, 0x06d20, 0x0ada0,
+    0x14b63, 0x09370, 0x049f8, 0x04970, 0x064b0, 0x168a6, 0x0ea50, 0x06b20, 0x1a6c4, 0x0aae0,
+    0x092e0, 0x0d2e3, 0x0c960, 0x0d557, 0x0d4a0, 0x0da50, 0x05d55, 0x056a0, 0x0a6d0, 0x055d4,
+    0x052d0, 0x0a9b8, 0x0a950, 0x0b4a0, 0x0b6a6, 0x0ad50, 0x055a0, 0x0aba4, 0x0a5b0, 0x052b0,
+    0x0b273, 0x06930, 0x07337, 0x06aa0, 0x0ad50, 0x14b55, 0x04b60, 0x0a570, 0x054e4, 0x0d160,
+    0x0e968, 0x0d520, 0x0daa0, 0x16aa6, 0x056d0, 0x04ae0, 0x0a9d4, 0x0a2d0, 0x0d150, 0x0f252,
+    0x0d520
+  ],
+  korean: [
+    0x04bd8, 0x04ae0, 0x0a570, 0x054d5, 0x0d260, 0x0d950, 0x16554, 0x056a0, 0x09ad0, 0x055d2,
+    0x04ae0, 0x0a5b6, 0x0a4d0, 0x0d250, 0x0da95, 0x0b550, 0x056a0, 0x0ada2, 0x095d0, 0x04bb7,
+    0x049b0, 0x0a4b0, 0x0b4b5, 0x06a90, 0x0ad40, 0x0bb54, 0x02b60, 0x095b0, 0x05372, 0x04970,
+    0x06566, 0x0e4a0, 0x0ea50, 0x16a95, 0x05b50, 0x02b60, 0x18ae3, 0x092e0, 0x1c8d7, 0x0c950,
+    0x0d4a0, 0x1d8a6, 0x0b690, 0x056d0, 0x125b4, 0x025d0, 0x092d0, 0x0d2b2, 0x0a950, 0x0d557,
+    0x0b4a0, 0x0b550, 0x15555, 0x04db0, 0x025b0, 0x18573, 0x052b0, 0x0a9b8, 0x06950, 0x06aa0,
+    0x0aea6, 0x0ab50, 0x04b60, 0x0aae4, 0x0a570, 0x05270, 0x07263, 0x0d950, 0x06b57, 0x056a0,
+    0x09ad0, 0x04dd5, 0x04ae0, 0x0a4e0, 0x0d4d4, 0x0d250, 0x0d598, 0x0b540, 0x0d6a0, 0x195a6,
+    0x095b0, 0x049b0, 0x0a9b4, 0x0a4b0, 0x0b27a, 0x06a50, 0x06d40, 0x0b756, 0x02b60, 0x095b0,
+    0x04b75, 0x04970, 0x064b0, 0x074a3, 0x0ea50, 0x06d98, 0x05ad0, 0x02b60, 0x096e5, 0x092e0,
+    0x0c960, 0x0e954, 0x0d4a0, 0x0da50, 0x07552, 0x056c0, 0x0abb7, 0x025d0, 0x092d0, 0x0cab5,
+    0x0a950, 0x0b4a0, 0x1b4a3, 0x0b550, 0x055d9, 0x04ba0, 0x0a5b0, 0x09575, 0x052b0, 0x0a950,
+    0x0b954, 0x06aa0, 0x0ad50, 0x06b52, 0x04b60, 0x0a6e6, 0x0a570, 0x05270, 0x06a65, 0x0d930,
+    0x05aa0, 0x0b6a3, 0x096d0, 0x04afb, 0x04ae0, 0x0a4d0, 0x1d0d6, 0x0d250, 0x0d520, 0x0dd45,
+    0x0b6a0, 0x096d0, 0x055b2, 0x049b0, 0x0a577, 0x0a4b0, 0x0b250, 0x1b255, 0x06d40, 0x0ada0,
+    0x18b63, 0x093b0, 0x14978, 0x04970, 0x064b0, 0x168a6, 0x0ea50, 0x06b20, 0x1aac4, 0x0ab60,
+    0x09370, 0x052e3, 0x0c960, 0x0d557, 0x0d4a0, 0x0da50, 0x05d55, 0x056a0, 0x0aad0, 0x095d4,
+    0x092d0, 0x0c9b8, 0x0a950, 0x0b4a0, 0x0b6a6, 0x0ad50, 0x055a0, 0x0aba4, 0x0a5b0, 0x052b0,
+    0x0b2b3, 0x0a930, 0x07557, 0x06aa0, 0x0ad50, 0x14b55, 0x04b60, 0x0a570, 0x054f4, 0x05260,
+    0x0e968, 0x0d530, 0x05aa0, 0x1aaa6, 0x096d0, 0x04ae0, 0x0aae4, 0x0a4d0, 0x0d260, 0x0f253,
+    0x0d520
+  ]
+}
+
+/**
+ * Lunar new year of LUNAR_MIN_YEAR (identical for both calendars)
+ */
+const LUNAR_EPOCH = Date.UTC(1900, 0, 31)
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Cumulative day offsets of each lunar new year from LUNAR_EPOCH, built lazily
+ */
+const newYearOffsets: Partial<Record<LunarCalendar, number[]>> = {}
+
+function getYearInfo(year: number, calendar: LunarCalendar): number {
+  if (!Number.isInteger(year) || year < LUNAR_MIN_YEAR || year > LUNAR_MAX_YEAR) {
+    throw new ValidationError(
+      `Lunar year must be an integer between ${LUNAR_MIN_YEAR} and ${LUNAR_MAX_YEAR}`,
+      'year',
+      year
+    )
+  }
+  return LUNAR_YEAR_INFO[calendar][year - LUNAR_MIN_YEAR] ?? 0
+}
+
+/**
+ * Get the leap month of a lunar year (0 when the year has no leap month)
+ */
+export function getLunarLeapMonth(year: number, calendar: LunarCalendar = 'chinese'): number {
+  return getYearInfo(year, calendar) & 0xf
+}
+
+/**
+ * Get the number of days (29 or 30) of a lunar month
+ */
+export function getLunarMonthDays(
+  year: number,
+  month: number,
+  leap = false,
+  calendar: LunarCalendar = 'chinese'
+): number {
+  const info = getYearInfo(year, calendar)
+
+  if (leap) {
+    if ((info & 0xf) !== month) {
+      throw new ValidationError(`Lunar year ${year} has no leap month ${month}`, 'month', month)
+    }
+    return info & 0x10000 ? 30 : 29
+  }
+
+  if (!Number.isInteger(month) || month < 1 || month > 12) {
+    throw new ValidationError('Lunar month must be an integer between 1 and 12', 'month', month)
+  }
+  return info & (0x10000 >> month) ? 30 : 29
+}
+
+/**
+ * Get the number of days of a lunar year
+ */
+function getLunarYearDays(year: number, calendar: LunarCalendar): number {
+  let days = 0
+  for (let month = 1; month <= 12; month++) {
+    days += getLunarMonthDays(year, month, false, calendar)
+  }
+  const leapMonth = getLunarLeapMonth(year, calendar)
+  return leapMonth > 0 ? days + getLunarMonthDays(year, leapMonth, true, calendar) : days
+}
+
+/**
+ * Day offset of a lunar new year from LUNAR_EPOCH
+ */
+function getNewYearOffset(year: number, calendar: LunarCalendar): number {
+  let offsets = newYearOffsets[calendar]
+  if (!offsets) {
+    offsets = [0]
+    for (let y = LUNAR_MIN_YEAR; y < LUNAR_MAX_YEAR; y++) {
+      offsets.push((offsets[offsets.length - 1] ?? 0) + getLunarYearDays(y, calendar))
+    }
+    newYearOffsets[calendar] = offsets
+  }
+  return offsets[year - LUNAR_MIN_YEAR] ?? 0
+}
+
+/**
+ * Convert a lunar date to a Gregorian date (YYYY-MM-DD)
+ * @throws {ValidationError} if the lunar date does not exist
+ * @example lunarToSolar(2024, 1, 1) // "2024-02-10" (Spring Festival)
+ */
+export function lunarToSolar(
+  year: number,
+  month: number,
+  day: number,
+  options: { leap?: boolean; calendar?: LunarCalendar } = {}
+): string {
+  const calendar = options.calendar ?? 'chinese'
+  const leap = options.leap ?? false
+  const monthDays = getLunarMonthDays(year, month, leap, calendar)
+
+  if (!Number.isInteger(day) || day < 1 || day > monthDays) {
+    throw new ValidationError(`Lunar day must be between 1 and ${monthDays}`, 'day', day)
+  }
+
+  const leapMonth = getLunarLeapMonth(year, calendar)
+  let offset = getNewYearOffset(year, calendar)
+  for (let m = 1; m < month; m++) {
+    offset += getLunarMonthDays(year, m, false, calendar)
+  }
+  // The leap month follows the regular month of the same number
+  if (leapMonth > 0 && (month > leapMonth || (leap && month === leapMonth))) {
+    offset += leap
+      ? getLunarMonthDays(year, month, false, calendar)
+      : getLunarMonthDays(year, leapMonth, true, calendar)
+  }
+
+  return new Date(LUNAR_EPOCH + (offset + day - 1) * MS_PER_DAY).toISOString().substring(0, 10)
+}
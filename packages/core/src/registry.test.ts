@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  HolidayCalendarRegistry,
+  createHolidayCalendarRegistry,
+  calendarKey,
+  DayjsFactory,
+  ValidationError
+} from '../src'
+import type { Holiday, HolidayCalendarSnapshot } from '../src'
+
+const NEW_YEAR: Holiday = { date: '2024-01-01', name: 'New Year', type: 'public' }
+const LABOR_DAY: Holiday = { date: '2024-05-01', name: 'Labor Day', type: 'public' }
+
+describe('HolidayCalendarRegistry', () => {
+  let registry: HolidayCalendarRegistry
+
+  beforeEach(() => {
+    registry = createHolidayCalendarRegistry()
+  })
+
+  describe('set / get', () => {
+    it('should store a frozen snapshot', () => {
+      const snapshot = registry.set('acme:cn', [NEW_YEAR])
+
+      expect(snapshot.id).toBe('acme:cn')
+      expect(snapshot.version).toBe(1)
+      expect(snapshot.holidays).toEqual([NEW_YEAR])
+      expect(Object.isFrozen(snapshot)).toBe(true)
+      expect(Object.isFrozen(snapshot.holidays)).toBe(true)
+      expect(registry.get('acme:cn')).toBe(snapshot)
+    })
+
+    it('should bump the version on every replace', () => {
+      registry.set('acme:cn', [NEW_YEAR])
+      const second = registry.set('acme:cn', [NEW_YEAR, LABOR_DAY])
+
+      expect(second.version).toBe(2)
+      expect(registry.getVersion('acme:cn')).toBe(2)
+      expect(registry.getHolidays('acme:cn')).toHaveLength(2)
+    })
+
+    it('should not share references with the input array', () => {
+      const holidays = [NEW_YEAR]
+      registry.set('acme:cn', holidays)
+      holidays.push(LABOR_DAY)
+
+      expect(registry.getHolidays('acme:cn')).toHaveLength(1)
+    })
+
+    it('should return empty holidays and version 0 for unknown calendars', () => {
+      expect(registry.getHolidays('unknown')).toEqual([])
+      expect(registry.getVersion('unknown')).toBe(0)
+      expect(registry.has('unknown')).toBe(false)
+    })
+
+    it('should keep the previous snapshot when validation fails', () => {
+      registry.set('acme:cn', [NEW_YEAR])
+
+      expect(() =>
+        registry.set('acme:cn', [LABOR_DAY, { date: 'bad', name: 'Bad', type: 'public' }])
+      ).toThrow(ValidationError)
+      expect(registry.getHolidays('acme:cn')).toEqual([NEW_YEAR])
+      expect(registry.getVersion('acme:cn')).toBe(1)
+    })
+
+    it('should reject invalid calendar ids', () => {
+      expect(() => registry.set('', [])).toThrow(ValidationError)
+      expect(() => registry.set('<script>', [])).toThrow(ValidationError)
+    })
+  })
+
+  describe('delete', () => {
+    it('should remove a calendar and keep versions increasing', () => {
+      registry.set('acme:cn', [NEW_YEAR])
+
+      expect(registry.delete('acme:cn')).toBe(true)
+      expect(registry.has('acme:cn')).toBe(false)
+      expect(registry.getVersion('acme:cn')).toBe(2)
+      expect(registry.set('acme:cn', []).version).toBe(3)
+    })
+
+    it('should return false for unknown calendars', () => {
+      expect(registry.delete('unknown')).toBe(false)
+    })
+  })
+
+  describe('subscribe', () => {
+    it('should notify calendar listeners with current and previous snapshots', () => {
+      const events: Array<[HolidayCalendarSnapshot, HolidayCalendarSnapshot | null]> = []
+      registry.subscribe('acme:cn', (snapshot, previous) => events.push([snapshot, previous]))
+
+      const first = registry.set('acme:cn', [NEW_YEAR])
+      registry.set('acme:cn', [LABOR_DAY])
+      registry.set('other', [LABOR_DAY])
+
+      expect(events).toHaveLength(2)
+      expect(events[0]?.[1]).toBeNull()
+      expect(events[1]?.[1]).toBe(first)
+    })
+
+    it('should notify wildcard listeners for every calendar', () => {
+      const ids: string[] = []
+      registry.subscribe('*', snapshot => ids.push(snapshot.id))
+
+      registry.set('a', [])
+      registry.set('b', [])
+      registry.delete('a')
+
+      expect(ids).toEqual(['a', 'b', 'a'])
+    })
+
+    it('should stop notifying after unsubscribe', () => {
+      let calls = 0
+      const unsubscribe = registry.subscribe('acme:cn', () => calls++)
+
+      registry.set('acme:cn', [])
+      unsubscribe()
+      registry.set('acme:cn', [])
+
+      expect(calls).toBe(1)
+    })
+
+    it('should ignore a repeated unsubscribe after the calendar got new listeners', () => {
+      let calls = 0
+      const unsubscribe = registry.subscribe('acme:cn', () => {})
+      unsubscribe()
+      registry.subscribe('acme:cn', () => calls++)
+      unsubscribe()
+
+      registry.set('acme:cn', [])
+
+      expect(calls).toBe(1)
+    })
+
+    it('should notify every listener when one throws', () => {
+      const ids: string[] = []
+      registry.subscribe('acme:cn', () => {
+        throw new Error('listener failed')
+      })
+      registry.subscribe('acme:cn', snapshot => ids.push(snapshot.id))
+      registry.subscribe('*', snapshot => ids.push(snapshot.id))
+
+      expect(() => registry.set('acme:cn', [NEW_YEAR])).toThrow('listener failed')
+      expect(ids).toEqual(['acme:cn', 'acme:cn'])
+      expect(registry.get('acme:cn').holidays).toHaveLength(1)
+    })
+  })
+
+  describe('ids', () => {
+    it('should list registered calendars', () => {
+      registry.set(calendarKey('acme', 'cn'), [])
+      registry.set(calendarKey('acme', 'us'), [])
+
+      expect(registry.ids()).toEqual(['acme:cn', 'acme:us'])
+    })
+  })
+})
+
+describe('DayjsFactory with holiday registry', () => {
+  it('should apply calendar updates without recreating the factory', () => {
+    const registry = createHolidayCalendarRegistry()
+    const factory = new DayjsFactory({
+      holidayRegistry: registry,
+      businessRules: { workdays: [1, 2, 3, 4, 5], holidays: [], calendarId: 'acme:cn' }
+    })
+    const date = factory.create({ input: '2024-05-01' })
+
+    expect(date.isBusinessDay()).toBe(true)
+
+    registry.set('acme:cn', [LABOR_DAY])
+    expect(date.isBusinessDay()).toBe(false)
+    expect(factory.getHolidays()).toEqual([LABOR_DAY])
+  })
+
+  it('should combine static holidays with the calendar', () => {
+    const registry = createHolidayCalendarRegistry()
+    registry.set('acme:cn', [LABOR_DAY])
+    const factory = new DayjsFactory({
+      holidayRegistry: registry,
+      businessRules: { workdays: [1, 2, 3, 4, 5], holidays: [NEW_YEAR], calendarId: 'acme:cn' }
+    })
+
+    expect(factory.create({ input: '2024-01-01' }).isBusinessDay()).toBe(false)
+    expect(factory.create({ input: '2024-05-01' }).isBusinessDay()).toBe(false)
+  })
+
+  it('should reject invalid calendar ids in strict mode', () => {
+    expect(
+      () =>
+        new DayjsFactory({
+          businessRules: { workdays: [1, 2, 3, 4, 5], holidays: [], calendarId: 'bad id' }
+        })
+    ).toThrow(ValidationError)
+  })
+})
@@ -0,0 +1,167 @@
+import type { Holiday, HolidayCalendarSnapshot, HolidayCalendarListener } from './types'
+import { validateCalendarId, validateHoliday, ValidationError } from './validator'
+
+/**
+ * Wildcard key for listeners interested in every calendar
+ */
+const ALL_CALENDARS = '*'
+
+/**
+ * Build the registry key for a tenant-specific calendar
+ * @example calendarKey('acme', 'cn') // "acme:cn"
+ */
+export function calendarKey(tenantId: string, calendarId: string): string {
+  return `${tenantId}:${calendarId}`
+}
+
+/**
+ * HolidayCalendarRegistry - Runtime holiday calendars keyed by tenant/calendar id
+ *
+ * Factories, the business-day plugin and BillingDateService read holidays from
+ * the registry on every call, so replacing a calendar takes effect immediately
+ * without recreating instances. Each replacement is atomic: holidays are
+ * validated first, then swapped in as a new frozen snapshot with a bumped version.
+ */
+export class HolidayCalendarRegistry {
+  private readonly calendars: Map<string, HolidayCalendarSnapshot> = new Map()
+  private readonly versions: Map<string, number> = new Map()
+  private readonly listeners: Map<string, Set<HolidayCalendarListener>> = new Map()
+
+  /**
+   * Replace the holidays of a calendar
+   * @throws {ValidationError} if the id or any holiday is invalid (nothing is changed)
+   */
+  set(id: string, holidays: readonly Holiday[]): HolidayCalendarSnapshot {
+    validateCalendarId(id)
+
+    if (!Array.isArray(holidays as unknown)) {
+      throw new ValidationError('Holidays must be an array', 'holidays', holidays)
+    }
+    for (const holiday of holidays) {
+      validateHoliday(holiday)
+    }
+
+    const previous = this.calendars.get(id) ?? null
+    const snapshot: HolidayCalendarSnapshot = Object.freeze({
+      id,
+      version: this.nextVersion(id),
+      holidays: Object.freeze(holidays.map(holiday => Object.freeze({ ...holiday }))),
+      updatedAt: Date.now()
+    })
+
+    this.calendars.set(id, snapshot)
+    this.notify(snapshot, previous)
+    return snapshot
+  }
+
+  /**
+   * Get the current snapshot of a calendar
+   */
+  get(id: string): HolidayCalendarSnapshot | undefined {
+    return this.calendars.get(id)
+  }
+
+  /**
+   * Get the current holidays of a calendar (empty when unknown)
+   */
+  getHolidays(id: string): readonly Holiday[] {
+    return this.calendars.get(id)?.holidays ?? []
+  }
+
+  /**
+   * Get the current version of a calendar (0 when never registered).
+   * Versions keep increasing across delete/set so caches can key on them.
+   */
+  getVersion(id: string): number {
+    return this.versions.get(id) ?? 0
+  }
+
+  /**
+   * Check if a calendar is registered
+   */
+  has(id: string): boolean {
+    return this.calendars.has(id)
+  }
+
+  /**
+   * Remove a calendar. Listeners receive an empty snapshot with a bumped version.
+   */
+  delete(id: string): boolean {
+    const previous = this.calendars.get(id)
+    if (!previous) {
+      return false
+    }
+
+    this.calendars.delete(id)
+    this.notify(
+      Object.freeze({
+        id,
+        version: this.nextVersion(id),
+        holidays: Object.freeze([]),
+        updatedAt: Date.now()
+      }),
+      previous
+    )
+    return true
+  }
+
+  /**
+   * Get all registered calendar ids
+   */
+  ids(): string[] {
+    return Array.from(this.calendars.keys())
+  }
+
+  /**
+   * Listen for changes of one calendar, or of every calendar with "*".
+   * A throwing listener does not stop the others; the first error is rethrown
+   * by set/delete after every listener ran and the change is kept.
+   * @returns unsubscribe function
+   */
+  subscribe(id: string, listener: HolidayCalendarListener): () => void {
+    const listeners = this.listeners.get(id) ?? new Set<HolidayCalendarListener>()
+    listeners.add(listener)
+    this.listeners.set(id, listeners)
+
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0 && this.listeners.get(id) === listeners) {
+        this.listeners.delete(id)
+      }
+    }
+  }
+
+  private nextVersion(id: string): number {
+    const version = (this.versions.get(id) ?? 0) + 1
+    this.versions.set(id, version)
+    return version
+  }
+
+  private notify(
+    snapshot: HolidayCalendarSnapshot,
+    previous: HolidayCalendarSnapshot | null
+  ): void {
+    const targets = [
+      ...(this.listeners.get(snapshot.id) ?? []),
+      ...(this.listeners.get(ALL_CALENDARS) ?? [])
+    ]
+    const errors: unknown[] = []
+    for (const listener of targets) {
+      try {
+        listener(snapshot, previous)
+      } catch (error) {
+        errors.push(error)
+      }
+    }
+    if (errors.length > 0) {
+      throw errors[0]
+    }
+  }
+}
+
+/**
+ * Create a new holiday calendar registry
+ */
+export function createHolidayCalendarRegistry(): HolidayCalendarRegistry {
+  return new HolidayCalendarRegistry()
+}
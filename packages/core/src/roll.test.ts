@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import dayjs from 'dayjs'
+import type { Dayjs } from 'dayjs'
+import { rollDate, isWeekendDay, RollConvention, ValidationError } from '../src'
+
+const isBusinessDay = (date: Dayjs): boolean => !isWeekendDay(date)
+const roll = (date: string, convention: RollConvention): string =>
+  rollDate(dayjs(date), convention, isBusinessDay).format('YYYY-MM-DD')
+
+describe('rollDate', () => {
+  it('should keep business days unchanged', () => {
+    for (const convention of Object.values(RollConvention)) {
+      expect(roll('2024-08-30', convention)).toBe('2024-08-30')
+    }
+  })
+
+  it('should roll forwards and backwards', () => {
+    // Saturday Jun 15, 2024
+    expect(roll('2024-06-15', RollConvention.FOLLOWING)).toBe('2024-06-17')
+    expect(roll('2024-06-15', RollConvention.PRECEDING)).toBe('2024-06-14')
+    expect(roll('2024-06-15', RollConvention.NONE)).toBe('2024-06-15')
+  })
+
+  it('should stay within the month for modified conventions', () => {
+    // Saturday Aug 31, 2024: the following business day is in September
+    expect(roll('2024-08-31', RollConvention.FOLLOWING)).toBe('2024-09-02')
+    expect(roll('2024-08-31', RollConvention.MODIFIED_FOLLOWING)).toBe('2024-08-30')
+    // Sunday Sep 1, 2024: the preceding business day is in August
+    expect(roll('2024-09-01', RollConvention.PRECEDING)).toBe('2024-08-30')
+    expect(roll('2024-09-01', RollConvention.MODIFIED_PRECEDING)).toBe('2024-09-02')
+    // Within the month, modified conventions behave like the plain ones
+    expect(roll('2024-06-15', RollConvention.MODIFIED_FOLLOWING)).toBe('2024-06-17')
+    expect(roll('2024-06-15', RollConvention.MODIFIED_PRECEDING)).toBe('2024-06-14')
+  })
+
+  it('should use the caller-defined business days', () => {
+    const holiday = (date: Dayjs): boolean =>
+      isBusinessDay(date) && date.format('YYYY-MM-DD') !== '2024-12-25'
+    expect(rollDate(dayjs('2024-12-25'), 'following', holiday).format('YYYY-MM-DD')).toBe(
+      '2024-12-26'
+    )
+  })
+
+  it('should reject unknown conventions and calendars without business days', () => {
+    expect(() => rollDate(dayjs('2024-06-15'), 'nearest' as RollConvention, isBusinessDay)).toThrow(
+      ValidationError
+    )
+    expect(() => rollDate(dayjs('2024-06-15'), 'following', () => false)).toThrow(ValidationError)
+  })
+})
+
+describe('isWeekendDay', () => {
+  it('should detect Saturday and Sunday', () => {
+    expect(isWeekendDay(dayjs('2024-06-15'))).toBe(true)
+    expect(isWeekendDay(dayjs('2024-06-16'))).toBe(true)
+    expect(isWeekendDay(dayjs('2024-06-17'))).toBe(false)
+  })
+})
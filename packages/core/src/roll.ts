@@ -0,0 +1,80 @@
+import type { Dayjs } from 'dayjs'
+import { RollConvention } from './types'
+import { ValidationError } from './validator'
+
+/**
+ * Give up after this many consecutive non-business days
+ */
+const MAX_ROLL_DAYS = 366
+
+/**
+ * Move to the nearest business day in one direction (the date itself if it qualifies)
+ */
+function rollInDirection(
+  date: Dayjs,
+  direction: 1 | -1,
+  isBusinessDay: (date: Dayjs) => boolean
+): Dayjs {
+  let current = date
+  for (let step = 0; step <= MAX_ROLL_DAYS; step++) {
+    if (isBusinessDay(current)) {
+      return current
+    }
+    current = current.add(direction, 'day')
+  }
+
+  throw new ValidationError(
+    `No business day within ${MAX_ROLL_DAYS} days`,
+    'rollConvention',
+    date.format('YYYY-MM-DD')
+  )
+}
+
+/**
+ * Roll a date that falls on a non-business day according to a convention.
+ * Business days are defined by the caller, so weekend-only, holiday-aware and
+ * rule-based calendars share the same conventions.
+ * @throws {ValidationError} if the convention is unknown
+ * @example rollDate(dayjs('2024-08-31'), 'modifiedFollowing', isBusinessDay) // 2024-08-30 (Fri)
+ */
+export function rollDate(
+  date: Dayjs,
+  convention: RollConvention,
+  isBusinessDay: (date: Dayjs) => boolean
+): Dayjs {
+  switch (convention) {
+    case RollConvention.NONE:
+      return date
+
+    case RollConvention.FOLLOWING:
+      return rollInDirection(date, 1, isBusinessDay)
+
+    case RollConvention.PRECEDING:
+      return rollInDirection(date, -1, isBusinessDay)
+
+    case RollConvention.MODIFIED_FOLLOWING: {
+      const following = rollInDirection(date, 1, isBusinessDay)
+      return following.isSame(date, 'month') ? following : rollInDirection(date, -1, isBusinessDay)
+    }
+
+    case RollConvention.MODIFIED_PRECEDING: {
+      const preceding = rollInDirection(date, -1, isBusinessDay)
+      return preceding.isSame(date, 'month') ? preceding : rollInDirection(date, 1, isBusinessDay)
+    }
+
+    default:
+      throw new ValidationError(
+        `Unknown roll convention: ${String(convention)}`,
+        'rollConvention',
+        convention
+      )
+  }
+}
+
+/**
+ * Check if a date falls on Saturday or Sunday
+ */
+export function isWeekendDay(date: Dayjs): boolean {
+  const day = date.day()
+  return day === 0 || day === 6
+}
@@ -0,0 +1,133 @@
+import dayjs, { Dayjs } from 'dayjs'
+import type { ConfigType, PluginFunc } from 'dayjs'
+
+type DayjsMethod = (this: Dayjs, ...args: unknown[]) => unknown
+
+/**
+ * Scoped dayjs constructor and factory function handed to plugins
+ *
+ * Every scope owns a Dayjs subclass whose prototype sits between the plugin
+ * methods installed into the scope and the global Dayjs prototype. Plugins
+ * installed through the scope write to the subclass prototype only, so they
+ * never reach bare `dayjs()` instances or instances of another scope.
+ *
+ * Instances returned by base methods (add, startOf, tz, utc, ...) are
+ * re-attached to the scope, keeping plugin methods available while chaining.
+ */
+export class DayjsScope {
+  readonly Dayjs: typeof Dayjs
+  readonly dayjs: typeof dayjs
+
+  private readonly prototype: object
+  private readonly wrappedMethods = new WeakMap<DayjsMethod, DayjsMethod>()
+
+  constructor() {
+    const BaseDayjs = (dayjs.prototype as object).constructor as typeof Dayjs
+    const bridge = this.createBridge(BaseDayjs)
+
+    class ScopedDayjs extends BaseDayjs {}
+    Object.setPrototypeOf(ScopedDayjs.prototype, bridge)
+
+    this.prototype = ScopedDayjs.prototype
+    this.Dayjs = ScopedDayjs
+    this.dayjs = this.createFactory(ScopedDayjs)
+  }
+
+  /**
+   * Build the bridge prototype that re-scopes results of global Dayjs methods
+   */
+  private createBridge(BaseDayjs: typeof Dayjs): object {
+    return new Proxy(Object.create(BaseDayjs.prototype) as object, {
+      get: (target, key, receiver): unknown => {
+        const value: unknown = Reflect.get(target, key, receiver)
+        if (typeof value !== 'function' || key === 'constructor') {
+          return value
+        }
+        return this.wrapMethod(value as DayjsMethod)
+      }
+    })
+  }
+
+  /**
+   * Wrap a global method so that plain Dayjs results are adopted into the scope
+   */
+  private wrapMethod(method: DayjsMethod): DayjsMethod {
+    const cached = this.wrappedMethods.get(method)
+    if (cached) {
+      return cached
+    }
+
+    const adopt = (instance: Dayjs): Dayjs => this.adopt(instance)
+    const wrapped: DayjsMethod = function (this: Dayjs, ...args: unknown[]): unknown {
+      const result = method.apply(this, args)
+      return dayjs.isDayjs(result) ? adopt(result) : result
+    }
+
+    this.wrappedMethods.set(method, wrapped)
+    return wrapped
+  }
+
+  /**
+   * Build the scoped factory function passed to plugins as their third argument.
+   * Static members (utc, tz, locale, ...) are inherited from the global factory,
+   * while anything a plugin assigns stays on the scoped function.
+   */
+  private createFactory(ScopedDayjs: typeof Dayjs): typeof dayjs {
+    const adopt = (instance: Dayjs): Dayjs => this.adopt(instance)
+    const factory = function (date?: ConfigType, c?: unknown): Dayjs {
+      if (dayjs.isDayjs(date)) {
+        return adopt(date.clone())
+      }
+
+      const cfg = (typeof c === 'object' && c !== null ? c : {}) as Record<string, unknown>
+      cfg.date = date
+      // eslint-disable-next-line prefer-rest-params
+      cfg.args = arguments
+      return new ScopedDayjs(cfg as unknown as ConfigType)
+    } as unknown as typeof dayjs
+
+    Object.setPrototypeOf(factory, dayjs)
+    Object.defineProperties(factory, {
+      prototype: { value: this.prototype, writable: true },
+      extend: {
+        value: (plugin: PluginFunc, option?: unknown): typeof dayjs => {
+          this.install(plugin, option)
+          return factory
+        }
+      }
+    })
+
+    return factory
+  }
+
+  /**
+   * Attach a plain Dayjs instance to this scope
+   */
+  adopt<T extends Dayjs>(instance: T): T {
+    if (Object.getPrototypeOf(instance) === dayjs.prototype) {
+      Object.setPrototypeOf(instance, this.prototype)
+    }
+    return instance
+  }
+
+  /**
+   * Create a scoped instance from any dayjs input
+   */
+  create(input?: ConfigType): Dayjs {
+    return this.dayjs(input)
+  }
+
+  /**
+   * Install a plugin into this scope only
+   */
+  install(plugin: PluginFunc, option?: unknown): void {
+    plugin(option, this.Dayjs, this.dayjs)
+  }
+
+  /**
+   * Check whether an instance belongs to this scope
+   */
+  owns(instance: Dayjs): boolean {
+    return instance instanceof this.Dayjs
+  }
+}
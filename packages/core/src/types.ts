@@ -1,4 +1,5 @@
 import type { Dayjs, ConfigType, PluginFunc } from 'dayjs'
+import type { HolidayCalendarRegistry } from './registry'
 
 /**
  * ISO 8601 formatted date string
@@ -26,23 +27,137 @@ export type LocaleCode = 'zh-cn' | 'en' | 'ja' | 'ko' | 'de' | 'fr' | 'es' | 'pt
  */
 export type TimezoneId = string & { readonly __brand: 'TimezoneId' }
 
+/**
+ * Yearly recurrence rule for holidays that move between years
+ *
+ * - `fixed`: same month and day every year (e.g. Dec 25)
+ * - `nthWeekday`: nth weekday of a month (e.g. 4th Thursday of November)
+ * - `lastWeekday`: last weekday of a month (e.g. last Monday of May)
+ * - `easter`: offset in days from Western (Gregorian) Easter Sunday
+ *
+ * Months are 1-12 and weekdays 0-6 (Sunday = 0), matching BusinessRules.workdays.
+ */
+export type HolidayRule =
+  | { readonly type: 'fixed'; readonly month: number; readonly day: number }
+  | {
+      readonly type: 'nthWeekday'
+      readonly month: number
+      readonly weekday: number
+      readonly nth: 1 | 2 | 3 | 4 | 5
+    }
+  | { readonly type: 'lastWeekday'; readonly month: number; readonly weekday: number }
+  | { readonly type: 'easter'; readonly offset: number }
+
+/**
+ * Observance policy for holidays that land on a weekend
+ *
+ * - `none`: observed on the actual date (default)
+ * - `nearestWeekday`: Saturday → Friday, Sunday → Monday
+ * - `nextMonday`: Saturday or Sunday → following Monday
+ * - `previousFriday`: Saturday or Sunday → preceding Friday
+ */
+export type HolidayObservance = 'none' | 'nearestWeekday' | 'nextMonday' | 'previousFriday'
+
 /**
  * Holiday definition
+ *
+ * Without `rule`, the holiday falls on `date` (or on its month and day every
+ * year when `recurring` is set). With `rule`, `date` is the first occurrence:
+ * the rule applies from that year onward. When `observance` shifts a weekend
+ * occurrence, the observed date is an additional day off and the actual
+ * date stays a holiday (it matters for workweeks including the weekend day).
+ * A `workdayWeight` above 0 marks a partial holiday such as an early close:
+ * the day stays a business day and counts as that fraction of a day in
+ * fractional business-day counts.
  */
 export interface Holiday {
   readonly date: string
   readonly name: string
   readonly type: 'public' | 'company' | 'regional'
   readonly recurring?: boolean
+  readonly rule?: HolidayRule
+  readonly observance?: HolidayObservance
+  /** Share of a working day still worked, 0 (default, full day off) to below 1 */
+  readonly workdayWeight?: number
 }
 
+/**
+ * Versioned, immutable view of a holiday calendar in a HolidayCalendarRegistry
+ */
+export interface HolidayCalendarSnapshot {
+  readonly id: string
+  readonly version: number
+  readonly holidays: readonly Holiday[]
+  readonly updatedAt: number
+}
+
+/**
+ * Listener notified when a registry calendar is replaced or removed
+ */
+export type HolidayCalendarListener = (
+  snapshot: HolidayCalendarSnapshot,
+  previous: HolidayCalendarSnapshot | null
+) => void
+
+/**
+ * Opening window within a day as 24-hour "HH:mm" times (end exclusive, "24:00" allowed)
+ */
+export interface BusinessHoursWindow {
+  readonly start: string
+  readonly end: string
+}
+
+/**
+ * Business hours of the business days
+ *
+ * Each business day opens during `windows` (or its `weekdays` override, keyed
+ * by weekday 0-6 with Sunday = 0) minus `breaks` such as lunch. Times are wall
+ * clock times in `timezone`, or in the runtime's local timezone when omitted.
+ */
+export interface BusinessHours {
+  readonly windows: readonly BusinessHoursWindow[]
+  readonly weekdays?: Readonly<Partial<Record<number, readonly BusinessHoursWindow[]>>>
+  readonly breaks?: readonly BusinessHoursWindow[]
+  readonly timezone?: string
+}
+
+/**
+ * How a composite calendar combines its member calendars
+ *
+ * - `intersection`: a business day in every calendar (e.g. US and UK settlement)
+ * - `union`: a business day in any calendar
+ */
+export type CalendarCombination = 'union' | 'intersection'
+
 /**
  * Business rules configuration
+ *
+ * With `calendars`, the rules form a composite calendar: business days are
+ * decided by the member calendars according to `combine` (defaults to
+ * intersection), and `workdays`, `holidays` and `extraWorkdays` of the
+ * composite itself are not consulted.
  */
 export interface BusinessRules {
   readonly workdays: readonly number[]
   readonly holidays: readonly Holiday[]
+  /** Make-up working days (YYYY-MM-DD) that are business days regardless of `workdays` */
+  readonly extraWorkdays?: readonly string[]
+  /** Opening hours used by intra-day (business hours) arithmetic */
+  readonly businessHours?: BusinessHours
   readonly fiscalYearStart?: { month: number; day: number }
+  /** Registry calendar whose holidays are applied on top of `holidays` */
+  readonly calendarId?: string
+  /** Member calendars of a composite calendar */
+  readonly calendars?: readonly BusinessRules[]
+  readonly combine?: CalendarCombination
+}
+
+/**
+ * Business rules combining several calendars (see createCompositeCalendar)
+ */
+export interface CompositeCalendar extends BusinessRules {
+  readonly calendars: readonly BusinessRules[]
+  readonly combine: CalendarCombination
 }
 
 /**
@@ -52,6 +167,7 @@ export interface DayjsBusinessConfig {
   readonly locale?: LocaleCode
   readonly timezone?: string
   readonly businessRules?: BusinessRules
+  readonly holidayRegistry?: HolidayCalendarRegistry
   readonly plugins?: readonly PluginFunc[]
   readonly strict?: boolean
   readonly debugMode?: boolean
@@ -82,6 +198,13 @@ export interface BusinessDayjs extends Dayjs {
   toBusinessDate(): BusinessDate
   toISO8601(): ISO8601String
   isBusinessDay(): boolean
+  /**
+   * Business hours methods; without `businessRules.businessHours` they throw a
+   * ValidationError unless the business-day plugin provides them
+   */
+  isWithinBusinessHours(): boolean
+  addBusinessHours(hours: number): Dayjs
+  businessMinutesBetween(other: ConfigType): number
 }
 
 /**
@@ -92,6 +215,21 @@ export const DEFAULT_BUSINESS_RULES: BusinessRules = {
   holidays: []
 } as const
 
+/**
+ * Default business hours (09:00 - 17:00), applied only when passed as `businessHours`
+ */
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  windows: [{ start: '09:00', end: '17:00' }]
+} as const
+
+/**
+ * Default fiscal year (calendar year, January 1)
+ */
+export const DEFAULT_FISCAL_YEAR: FiscalYearConfig = {
+  startMonth: 1,
+  startDay: 1
+} as const
+
 /**
  * Default configuration
  */
@@ -128,6 +266,86 @@ export type DurationUnit =
  */
 export type SubscriptionCycle = 'monthly' | 'quarterly' | 'yearly' | 'weekly'
 
+/**
+ * Unit of a custom billing interval
+ */
+export type BillingIntervalUnit = 'day' | 'week' | 'month' | 'year'
+
+/**
+ * Custom billing interval, e.g. `{ count: 2, unit: 'week' }` for biweekly or
+ * `{ count: 28, unit: 'day' }`
+ */
+export interface BillingInterval {
+  readonly count: number
+  readonly unit: BillingIntervalUnit
+}
+
+/**
+ * Billing cycle: a named subscription cycle (alias of an interval) or a custom interval
+ */
+export type BillingCycle = SubscriptionCycle | BillingInterval
+
+/**
+ * Business-day roll conventions for dates that fall on a non-business day
+ * - `following`: next business day
+ * - `modifiedFollowing`: next business day, unless it is in the next month (then preceding)
+ * - `preceding`: previous business day
+ * - `modifiedPreceding`: previous business day, unless it is in the previous month (then following)
+ * - `none`: keep the date
+ */
+export const RollConvention = {
+  FOLLOWING: 'following',
+  MODIFIED_FOLLOWING: 'modifiedFollowing',
+  PRECEDING: 'preceding',
+  MODIFIED_PRECEDING: 'modifiedPreceding',
+  NONE: 'none'
+} as const
+
+export type RollConvention = (typeof RollConvention)[keyof typeof RollConvention]
+
+/**
+ * Weeks per fiscal period within each quarter of a 52/53-week fiscal year.
+ * `13x4` uses thirteen 4-week periods, with four periods in the fourth quarter.
+ */
+export type FiscalWeekPattern = '4-4-5' | '4-5-4' | '5-4-4' | '13x4'
+
+/**
+ * How the last day of a 52/53-week fiscal year is chosen
+ * - `last`: the last `weekEndsOn` weekday of the month before `startMonth`
+ * - `nearest`: the `weekEndsOn` weekday nearest to the end of that month
+ */
+export type FiscalYearEnd = 'last' | 'nearest'
+
+/**
+ * How fiscal years are named
+ * - `endYear`: calendar year in which the fiscal year ends (FY2025 for Jul 2024 - Jun 2025)
+ * - `startYear`: calendar year in which the fiscal year starts (FY2024)
+ * - `span`: both years (FY2024-25); the fiscal year number is the start year
+ */
+export type FiscalYearLabel = 'endYear' | 'startYear' | 'span'
+
+/**
+ * Fiscal year definition
+ */
+export interface FiscalYearConfig {
+  /** Month when fiscal year starts (1-12) */
+  startMonth: number
+  /** Day when fiscal year starts (1-31) */
+  startDay?: number
+  /**
+   * Use a 52/53-week fiscal year whose quarters are split into periods of
+   * whole weeks. `startDay` is ignored; the year starts the day after the
+   * previous year ends.
+   */
+  weekPattern?: FiscalWeekPattern
+  /** Day of week that fiscal weeks end on (0 = Sunday, 6 = Saturday). Default 6 */
+  weekEndsOn?: number
+  /** Year end rule of week-based fiscal years. Default 'last' */
+  yearEnd?: FiscalYearEnd
+  /** Fiscal year naming. Default 'endYear' */
+  yearLabel?: FiscalYearLabel
+}
+
 /**
  * Financial quarter definition
  */
@@ -138,6 +356,18 @@ export interface FinancialQuarter {
   readonly endDate: Dayjs
 }
 
+/**
+ * Financial period (fiscal month) definition
+ */
+export interface FinancialPeriod {
+  /** Period of the fiscal year, 1-12 (1-13 for 13-period calendars) */
+  readonly period: number
+  readonly quarter: 1 | 2 | 3 | 4
+  readonly year: number
+  readonly startDate: Dayjs
+  readonly endDate: Dayjs
+}
+
 /**
  * Date range representation
  */
@@ -6,6 +6,7 @@ import {
   validateISO8601,
   validateBusinessRules,
   validateHoliday,
+  validateHolidayRule,
   sanitizeString,
   validatePositiveInteger,
   validateRange,
@@ -142,6 +143,23 @@ describe('validateBusinessRules', () => {
     ).toThrow(ValidationError)
   })
 
+  it('should validate extra workdays', () => {
+    expect(() =>
+      validateBusinessRules({
+        workdays: [1, 2, 3, 4, 5],
+        holidays: [],
+        extraWorkdays: ['2024-02-04']
+      })
+    ).not.toThrow()
+    expect(() =>
+      validateBusinessRules({
+        workdays: [1, 2, 3, 4, 5],
+        holidays: [],
+        extraWorkdays: ['2024/02/04']
+      })
+    ).toThrow(ValidationError)
+  })
+
   it('should reject non-object input', () => {
     expect(() => validateBusinessRules(null as unknown as never)).toThrow(ValidationError)
   })
@@ -188,6 +206,51 @@ describe('validateHoliday', () => {
       })
     ).toThrow(ValidationError)
   })
+
+  it('should validate workday weight', () => {
+    const halfDay = { date: '2024-12-24', name: 'Christmas Eve', type: 'public' as const }
+    expect(() => validateHoliday({ ...halfDay, workdayWeight: 0.5 })).not.toThrow()
+    expect(() => validateHoliday({ ...halfDay, workdayWeight: 1 })).toThrow(ValidationError)
+    expect(() => validateHoliday({ ...halfDay, workdayWeight: -0.5 })).toThrow(ValidationError)
+    expect(() => validateHoliday({ ...halfDay, workdayWeight: NaN })).toThrow(ValidationError)
+  })
+})
+
+describe('validateHolidayRule', () => {
+  it('should accept valid rules', () => {
+    expect(() => validateHolidayRule({ type: 'fixed', month: 7, day: 4 })).not.toThrow()
+    expect(() =>
+      validateHolidayRule({ type: 'nthWeekday', month: 11, weekday: 4, nth: 4 })
+    ).not.toThrow()
+    expect(() => validateHolidayRule({ type: 'lastWeekday', month: 5, weekday: 1 })).not.toThrow()
+    expect(() => validateHolidayRule({ type: 'easter', offset: -2 })).not.toThrow()
+  })
+
+  it('should reject out-of-range fields', () => {
+    expect(() => validateHolidayRule({ type: 'fixed', month: 13, day: 1 })).toThrow(ValidationError)
+    expect(() =>
+      validateHolidayRule({ type: 'nthWeekday', month: 11, weekday: 7, nth: 4 })
+    ).toThrow(ValidationError)
+    expect(() =>
+      validateHolidayRule({ type: 'nthWeekday', month: 11, weekday: 4, nth: 6 as never })
+    ).toThrow(ValidationError)
+    expect(() => validateHolidayRule({ type: 'easter', offset: 200 })).toThrow(ValidationError)
+  })
+
+  it('should reject unknown rule types', () => {
+    expect(() => validateHolidayRule({ type: 'lunar' } as never)).toThrow(ValidationError)
+  })
+
+  it('should be applied by validateHoliday', () => {
+    expect(() =>
+      validateHoliday({
+        date: '2024-05-27',
+        name: 'Memorial Day',
+        type: 'public',
+        rule: { type: 'lastWeekday', month: 5, weekday: 9 }
+      })
+    ).toThrow(ValidationError)
+  })
 })
 
 describe('sanitizeString', () => {
@@ -1,4 +1,15 @@
-import type { LocaleCode, DateInput, BusinessRules, Holiday } from './types'
+import type {
+  LocaleCode,
+  DateInput,
+  BusinessRules,
+  BusinessHours,
+  CalendarCombination,
+  BusinessHoursWindow,
+  BillingInterval,
+  FiscalYearConfig,
+  Holiday,
+  HolidayRule
+} from './types'
 
 /**
  * Validation error class for dayjs-business
@@ -30,6 +41,16 @@ const UTC_PATTERN = /^UTC$/i
  */
 const OFFSET_PATTERN = /^[+-]\d{2}:\d{2}$/
 
+/**
+ * Calendar date pattern (YYYY-MM-DD)
+ */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * 24-hour time of day pattern (HH:mm, up to 24:00)
+ */
+const TIME_OF_DAY_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/
+
 /**
  * ISO 8601 date pattern
  */
@@ -45,6 +66,11 @@ const XSS_PATTERN = /<script|javascript:|on\w+\s*=/i
  */
 const LOCALE_PATTERN = /^[a-z]{2}(-[a-z]{2})?$/i
 
+/**
+ * Holiday calendar id pattern (tenant and calendar segments joined by ":")
+ */
+const CALENDAR_ID_PATTERN = /^[A-Za-z0-9_.-]+(?::[A-Za-z0-9_.-]+)*$/
+
 /**
  * Validates timezone string
  * @throws {ValidationError} if timezone is invalid
@@ -179,6 +205,38 @@ export function validateBusinessRules(rules: BusinessRules): void {
     validateHoliday(holiday)
   }
 
+  // Validate make-up workdays
+  if (rules.extraWorkdays !== undefined) {
+    if (!Array.isArray(rules.extraWorkdays as unknown)) {
+      throw new ValidationError(
+        'Extra workdays must be an array',
+        'extraWorkdays',
+        rules.extraWorkdays
+      )
+    }
+
+    for (const date of rules.extraWorkdays) {
+      if (typeof date !== 'string' || !DATE_PATTERN.test(date)) {
+        throw new ValidationError('Extra workday must be a YYYY-MM-DD date', 'extraWorkdays', date)
+      }
+    }
+  }
+
+  // Validate business hours
+  if (rules.businessHours !== undefined) {
+    validateBusinessHours(rules.businessHours)
+  }
+
+  // Validate registry calendar reference
+  if (rules.calendarId !== undefined) {
+    validateCalendarId(rules.calendarId)
+  }
+
+  // Validate composite calendar members
+  if (rules.calendars !== undefined) {
+    validateCalendarCombination(rules.calendars, rules.combine)
+  }
+
   // Validate fiscal year start
   if (rules.fiscalYearStart !== undefined) {
     const { month, day } = rules.fiscalYearStart
@@ -199,6 +257,188 @@ export function validateBusinessRules(rules: BusinessRules): void {
   }
 }
 
+/**
+ * Validates the members and combination of a composite calendar
+ * @throws {ValidationError} if there are no members or a member is invalid
+ */
+export function validateCalendarCombination(
+  calendars: readonly BusinessRules[],
+  combine: CalendarCombination | undefined
+): void {
+  if (!Array.isArray(calendars as unknown) || calendars.length === 0) {
+    throw new ValidationError(
+      'Composite calendar requires at least one calendar',
+      'calendars',
+      calendars
+    )
+  }
+
+  if (combine !== undefined && combine !== 'union' && combine !== 'intersection') {
+    throw new ValidationError(
+      'Calendar combination must be one of: union, intersection',
+      'combine',
+      combine
+    )
+  }
+
+  for (const calendar of calendars) {
+    validateBusinessRules(calendar)
+  }
+}
+
+const FISCAL_WEEK_PATTERNS = ['4-4-5', '4-5-4', '5-4-4', '13x4']
+const FISCAL_YEAR_ENDS = ['last', 'nearest']
+const FISCAL_YEAR_LABELS = ['endYear', 'startYear', 'span']
+
+/**
+ * Validates a fiscal year definition
+ * @throws {ValidationError} if the start, week pattern or labeling is invalid
+ */
+export function validateFiscalYearConfig(config: FiscalYearConfig): void {
+  if (!Number.isInteger(config.startMonth) || config.startMonth < 1 || config.startMonth > 12) {
+    throw new ValidationError(
+      `Invalid fiscal startMonth: ${config.startMonth}`,
+      'startMonth',
+      config.startMonth
+    )
+  }
+
+  const startDay = config.startDay ?? 1
+  if (!Number.isInteger(startDay) || startDay < 1 || startDay > 31) {
+    throw new ValidationError(`Invalid fiscal startDay: ${startDay}`, 'startDay', startDay)
+  }
+
+  if (config.weekPattern !== undefined && !FISCAL_WEEK_PATTERNS.includes(config.weekPattern)) {
+    throw new ValidationError(
+      `Invalid fiscal weekPattern: ${String(config.weekPattern)}`,
+      'weekPattern',
+      config.weekPattern
+    )
+  }
+
+  const weekEndsOn = config.weekEndsOn ?? 6
+  if (!Number.isInteger(weekEndsOn) || weekEndsOn < 0 || weekEndsOn > 6) {
+    throw new ValidationError(`Invalid fiscal weekEndsOn: ${weekEndsOn}`, 'weekEndsOn', weekEndsOn)
+  }
+
+  if (config.yearEnd !== undefined && !FISCAL_YEAR_ENDS.includes(config.yearEnd)) {
+    throw new ValidationError(
+      `Invalid fiscal yearEnd: ${String(config.yearEnd)}`,
+      'yearEnd',
+      config.yearEnd
+    )
+  }
+
+  if (config.yearLabel !== undefined && !FISCAL_YEAR_LABELS.includes(config.yearLabel)) {
+    throw new ValidationError(
+      `Invalid fiscal yearLabel: ${String(config.yearLabel)}`,
+      'yearLabel',
+      config.yearLabel
+    )
+  }
+}
+
+const BILLING_INTERVAL_UNITS = ['day', 'week', 'month', 'year']
+
+/**
+ * Validates a custom billing interval
+ * @throws {ValidationError} if the count is not a positive integer or the unit is unknown
+ */
+export function validateBillingInterval(interval: BillingInterval): void {
+  if (typeof interval !== 'object' || interval === null) {
+    throw new ValidationError('Billing interval must be an object', 'interval', interval)
+  }
+
+  if (!Number.isInteger(interval.count) || interval.count < 1) {
+    throw new ValidationError(
+      `Invalid billing interval count: ${interval.count}`,
+      'count',
+      interval.count
+    )
+  }
+
+  if (!BILLING_INTERVAL_UNITS.includes(interval.unit)) {
+    throw new ValidationError(
+      `Invalid billing interval unit: ${String(interval.unit)}`,
+      'unit',
+      interval.unit
+    )
+  }
+}
+
+/**
+ * Validates business hours
+ * @throws {ValidationError} if windows, breaks or timezone are invalid
+ */
+export function validateBusinessHours(hours: BusinessHours): void {
+  if (typeof hours !== 'object' || hours === null) {
+    throw new ValidationError('Business hours must be an object', 'businessHours', hours)
+  }
+
+  const validateWindows = (windows: readonly BusinessHoursWindow[], field: string): void => {
+    if (!Array.isArray(windows as unknown)) {
+      throw new ValidationError('Business hours windows must be an array', field, windows)
+    }
+
+    for (const window of windows) {
+      const valid =
+        typeof window === 'object' &&
+        window !== null &&
+        TIME_OF_DAY_PATTERN.test(window.start) &&
+        TIME_OF_DAY_PATTERN.test(window.end) &&
+        window.start < window.end
+      if (!valid) {
+        throw new ValidationError(
+          'Business hours window requires "HH:mm" start before end',
+          field,
+          window
+        )
+      }
+    }
+  }
+
+  validateWindows(hours.windows, 'businessHours.windows')
+
+  if (hours.weekdays !== undefined) {
+    for (const [day, windows] of Object.entries(hours.weekdays)) {
+      if (!/^[0-6]$/.test(day)) {
+        throw new ValidationError(
+          'Weekday must be an integer between 0-6',
+          'businessHours.weekdays',
+          day
+        )
+      }
+      validateWindows(windows ?? [], 'businessHours.weekdays')
+    }
+  }
+
+  if (hours.breaks !== undefined) {
+    validateWindows(hours.breaks, 'businessHours.breaks')
+  }
+
+  if (hours.timezone !== undefined) {
+    validateTimezone(hours.timezone)
+  }
+}
+
+/**
+ * Validates holiday calendar id
+ * @throws {ValidationError} if id is invalid
+ */
+export function validateCalendarId(id: string): void {
+  if (typeof id !== 'string' || id.length === 0) {
+    throw new ValidationError('Calendar id must be a non-empty string', 'calendarId', id)
+  }
+
+  if (id.length > 100) {
+    throw new ValidationError('Calendar id too long', 'calendarId', id.substring(0, 50))
+  }
+
+  if (!CALENDAR_ID_PATTERN.test(id)) {
+    throw new ValidationError(`Invalid calendar id: ${id}`, 'calendarId', id)
+  }
+}
+
 /**
  * Validates holiday definition
  * @throws {ValidationError} if holiday is invalid
@@ -228,6 +468,102 @@ export function validateHoliday(holiday: Holiday): void {
       holiday.type
     )
   }
+
+  if (holiday.rule !== undefined) {
+    validateHolidayRule(holiday.rule)
+  }
+
+  if (
+    holiday.workdayWeight !== undefined &&
+    (typeof holiday.workdayWeight !== 'number' ||
+      !(holiday.workdayWeight >= 0 && holiday.workdayWeight < 1))
+  ) {
+    throw new ValidationError(
+      'Holiday workdayWeight must be a number from 0 to below 1',
+      'holiday.workdayWeight',
+      holiday.workdayWeight
+    )
+  }
+
+  const validObservances = ['none', 'nearestWeekday', 'nextMonday', 'previousFriday']
+  if (holiday.observance !== undefined && !validObservances.includes(holiday.observance)) {
+    throw new ValidationError(
+      `Holiday observance must be one of: ${validObservances.join(', ')}`,
+      'holiday.observance',
+      holiday.observance
+    )
+  }
+}
+
+/**
+ * Maximum Easter offset in days; keeps every occurrence inside Easter's year
+ */
+const MAX_EASTER_OFFSET = 80
+
+/**
+ * Validates holiday recurrence rule
+ * @throws {ValidationError} if rule is invalid
+ */
+export function validateHolidayRule(rule: HolidayRule): void {
+  if (typeof rule !== 'object' || rule === null) {
+    throw new ValidationError('Holiday rule must be an object', 'holiday.rule', rule)
+  }
+
+  const isIntegerBetween = (value: unknown, min: number, max: number): boolean =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+
+  switch (rule.type) {
+    case 'fixed':
+      if (!isIntegerBetween(rule.month, 1, 12) || !isIntegerBetween(rule.day, 1, 31)) {
+        throw new ValidationError(
+          'Fixed rule requires month 1-12 and day 1-31',
+          'holiday.rule',
+          rule
+        )
+      }
+      break
+
+    case 'nthWeekday':
+      if (
+        !isIntegerBetween(rule.month, 1, 12) ||
+        !isIntegerBetween(rule.weekday, 0, 6) ||
+        !isIntegerBetween(rule.nth, 1, 5)
+      ) {
+        throw new ValidationError(
+          'nthWeekday rule requires month 1-12, weekday 0-6 and nth 1-5',
+          'holiday.rule',
+          rule
+        )
+      }
+      break
+
+    case 'lastWeekday':
+      if (!isIntegerBetween(rule.month, 1, 12) || !isIntegerBetween(rule.weekday, 0, 6)) {
+        throw new ValidationError(
+          'lastWeekday rule requires month 1-12 and weekday 0-6',
+          'holiday.rule',
+          rule
+        )
+      }
+      break
+
+    case 'easter':
+      if (!isIntegerBetween(rule.offset, -MAX_EASTER_OFFSET, MAX_EASTER_OFFSET)) {
+        throw new ValidationError(
+          `Easter rule offset must be an integer between -${MAX_EASTER_OFFSET} and ${MAX_EASTER_OFFSET}`,
+          'holiday.rule',
+          rule
+        )
+      }
+      break
+
+    default:
+      throw new ValidationError(
+        'Holiday rule type must be one of: fixed, nthWeekday, lastWeekday, easter',
+        'holiday.rule.type',
+        (rule as { type?: unknown }).type
+      )
+  }
 }
 
 /**
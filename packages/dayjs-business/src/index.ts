@@ -13,13 +13,64 @@ export {
   createDayjs,
   ValidationError,
 
+  // Holiday calendars
+  HolidayCalendarRegistry,
+  createHolidayCalendarRegistry,
+  calendarKey,
+
+  // Holiday packs
+  getHolidayPack,
+  getHolidayPacks,
+  lunarToSolar,
+  type HolidayPackRegion,
+  type LunarCalendar,
+
+  // iCalendar
+  parseICalendar,
+  toICalendar,
+  type ICalendarImportOptions,
+  type ICalendarExportOptions,
+
+  // Fiscal calendars
+  FiscalCalendar,
+  createFiscalCalendar,
+
+  // Date dimension
+  generateDateDimension,
+  toDateDimensionCsv,
+  toDateDimensionJsonl,
+  type DateDimensionOptions,
+  type DateDimensionRow,
+
+  // Business hours
+  isWithinBusinessHours,
+  addBusinessHours,
+  addBusinessMinutes,
+  businessMinutesBetween,
+
+  // Composite calendars
+  createCompositeCalendar,
+  intersectCalendars,
+  unionCalendars,
+  isBusinessDate,
+
+  // Roll conventions
+  rollDate,
+  isWeekendDay,
+
   // Types
   type ISO8601String,
   type BusinessDate,
   type LocaleCode,
   type TimezoneId,
   type Holiday,
+  type HolidayCalendarSnapshot,
+  type HolidayCalendarListener,
+  type BusinessHours,
+  type BusinessHoursWindow,
   type BusinessRules,
+  type CalendarCombination,
+  type CompositeCalendar,
   type DayjsBusinessConfig,
   type CreateDayjsOptions,
   type PluginContext,
@@ -27,14 +78,25 @@ export {
   type DateInput,
   type DurationUnit,
   type SubscriptionCycle,
+  type BillingCycle,
+  type BillingInterval,
+  type BillingIntervalUnit,
   type FinancialQuarter,
+  type FinancialPeriod,
+  type FiscalYearConfig,
+  type FiscalWeekPattern,
+  type FiscalYearEnd,
+  type FiscalYearLabel,
   type DateRange,
   type BillingDate,
   type TimezoneConversionResult,
 
   // Constants
   DEFAULT_BUSINESS_RULES,
+  DEFAULT_BUSINESS_HOURS,
   DEFAULT_CONFIG,
+  DEFAULT_FISCAL_YEAR,
+  RollConvention,
 
   // Validators
   validateTimezone,
@@ -43,13 +105,22 @@ export {
   validateISO8601,
   validateBusinessRules,
   validateHoliday,
+  validateCalendarId,
+  validateBusinessHours,
+  validateCalendarCombination,
+  validateFiscalYearConfig,
+  validateBillingInterval,
   sanitizeString,
   validatePositiveInteger,
   validateRange
 } from '@dayjs-business/core'
 
 // Re-export plugins
-export { businessDayPlugin, createBusinessDayPlugin } from '@dayjs-business/plugin-business-day'
+export {
+  businessDayPlugin,
+  createBusinessDayPlugin,
+  updateHolidays
+} from '@dayjs-business/plugin-business-day'
 export {
   financialQuarterPlugin,
   createFinancialQuarterPlugin,
@@ -86,6 +157,7 @@ export {
   addDuration,
   subtractDuration,
   getDatesBetween,
+  getBusinessDaysBetween,
   minDate,
   maxDate,
   sortDatesAsc,
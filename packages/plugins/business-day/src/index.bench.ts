@@ -0,0 +1,105 @@
+import { bench, describe } from 'vitest'
+import dayjs from 'dayjs'
+import type { Dayjs } from 'dayjs'
+import { addBusinessDays, findHoliday, getHolidayPacks, isHolidayOn } from '@dayjs-business/core'
+import type { Holiday } from '@dayjs-business/core'
+import { businessDayPlugin, countBusinessDaysInRange } from '../src'
+
+/**
+ * Compares the arithmetic business-day implementation and the compiled
+ * holiday index with the previous day-by-day loop and linear holiday scan
+ * over a multi-year holiday calendar.
+ *
+ * Run with: pnpm bench
+ */
+
+const WORKDAYS = [1, 2, 3, 4, 5]
+const holidays: Holiday[] = getHolidayPacks('zh-cn', 2020, 2030)
+
+dayjs.extend(businessDayPlugin, { holidays })
+
+const isBusinessDayByLoop = (date: Dayjs): boolean =>
+  WORKDAYS.includes(date.day()) && !holidays.some(holiday => isHolidayOn(holiday, date))
+
+const countByLoop = (start: Dayjs, end: Dayjs): number => {
+  let count = 0
+  let current = start.clone()
+  while (current.isBefore(end) || current.isSame(end, 'day')) {
+    if (isBusinessDayByLoop(current)) {
+      count++
+    }
+    current = current.add(1, 'day')
+  }
+  return count
+}
+
+const addByLoop = (start: Dayjs, days: number, isBusinessDay = isBusinessDayByLoop): Dayjs => {
+  let remaining = days
+  let current = start.clone()
+  while (remaining > 0) {
+    current = current.add(1, 'day')
+    if (isBusinessDay(current)) {
+      remaining--
+    }
+  }
+  return current
+}
+
+const start = dayjs('2020-01-02')
+const end = dayjs('2024-12-31')
+
+describe('count business days over 5 years', () => {
+  bench('day-by-day loop', () => {
+    countByLoop(start, end)
+  })
+
+  bench('arithmetic', () => {
+    countBusinessDaysInRange(start, end, { holidays })
+  })
+})
+
+describe('isBusinessDay with 5000 holidays', () => {
+  const many: Holiday[] = Array.from({ length: 5000 }, (_, i) => ({
+    date: start.add(i, 'day').format('YYYY-MM-DD'),
+    name: `Holiday ${i}`,
+    type: 'company'
+  }))
+  const date = dayjs('2040-06-01')
+
+  bench('linear scan', () => {
+    many.some(holiday => isHolidayOn(holiday, date))
+  })
+
+  bench('holiday index', () => {
+    findHoliday(many, date)
+  })
+})
+
+describe('add 1000 business days', () => {
+  bench('day-by-day loop', () => {
+    addByLoop(start, 1000)
+  })
+
+  bench('arithmetic', () => {
+    start.addBusinessDays(1000)
+  })
+})
+
+describe('add 1000 business days with make-up workdays', () => {
+  // The first Saturday of every month is worked
+  const extraWorkdays = Array.from({ length: 132 }, (_, i) => {
+    const month = dayjs('2020-01-01').add(i, 'month')
+    return month.add((6 - month.day() + 7) % 7, 'day').format('YYYY-MM-DD')
+  })
+  const rules = { workdays: WORKDAYS, holidays, extraWorkdays }
+  const isBusinessDay = (date: Dayjs): boolean =>
+    extraWorkdays.includes(date.format('YYYY-MM-DD')) || isBusinessDayByLoop(date)
+
+  bench('day-by-day loop', () => {
+    addByLoop(start, 1000, isBusinessDay)
+  })
+
+  bench('arithmetic', () => {
+    addBusinessDays(start, 1000, rules)
+  })
+})
@@ -1,7 +1,15 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import dayjs from 'dayjs'
-import { businessDayPlugin, createBusinessDayPlugin, countBusinessDaysInRange, hasBusinessDaysInRange } from '../src'
+import { businessDayPlugin, createBusinessDayPlugin, countBusinessDaysInRange, hasBusinessDaysInRange, updateHolidays } from '../src'
+import {
+  DayjsFactory,
+  createHolidayCalendarRegistry,
+  intersectCalendars,
+  unionCalendars,
+  ValidationError
+} from '@dayjs-business/core'
 import type { Holiday } from '@dayjs-business/core'
+import { createFinancialQuarterPlugin } from '../../financial-quarter/src'
 
 // Extend dayjs with the plugin
 dayjs.extend(businessDayPlugin)
@@ -181,3 +189,268 @@ describe('hasBusinessDaysInRange', () => {
     expect(hasBusinessDaysInRange(start, end)).toBe(false)
   })
 })
+
+describe('holiday calendar registry', () => {
+  const laborDay: Holiday = { date: '2024-05-01', name: 'Labor Day', type: 'public' }
+
+  it('should pick up holiday updates without re-extending', () => {
+    const registry = createHolidayCalendarRegistry()
+    const factory = new DayjsFactory({
+      plugins: [createBusinessDayPlugin({ registry, calendarId: 'acme:cn' })]
+    })
+    const date = factory.create({ input: '2024-04-30' })
+
+    expect(date.nextBusinessDay().format('YYYY-MM-DD')).toBe('2024-05-01')
+
+    const snapshot = updateHolidays(registry, 'acme:cn', [laborDay])
+    expect(snapshot.version).toBe(1)
+    expect(date.nextBusinessDay().format('YYYY-MM-DD')).toBe('2024-05-02')
+    expect(date.add(1, 'day').getHolidayInfo()?.name).toBe('Labor Day')
+  })
+
+  it('should read registry calendars in range helpers', () => {
+    const registry = createHolidayCalendarRegistry()
+    registry.set('acme:cn', [laborDay])
+    const config = { registry, calendarId: 'acme:cn' }
+
+    expect(countBusinessDaysInRange(dayjs('2024-04-29'), dayjs('2024-05-03'), config)).toBe(4)
+    expect(hasBusinessDaysInRange(dayjs('2024-05-01'), dayjs('2024-05-01'), config)).toBe(false)
+  })
+})
+
+describe('rule-based holidays', () => {
+  const holidays: Holiday[] = [
+    {
+      date: '2020-11-26',
+      name: 'Thanksgiving',
+      type: 'public',
+      rule: { type: 'nthWeekday', month: 11, weekday: 4, nth: 4 }
+    },
+    {
+      date: '2020-04-10',
+      name: 'Good Friday',
+      type: 'public',
+      rule: { type: 'easter', offset: -2 }
+    }
+  ]
+
+  it('should skip rule-based holidays in business day arithmetic', () => {
+    const factory = new DayjsFactory({ plugins: [createBusinessDayPlugin({ holidays })] })
+    const wednesday = factory.create({ input: '2024-11-27' })
+
+    expect(wednesday.nextBusinessDay().format('YYYY-MM-DD')).toBe('2024-11-29')
+    expect(wednesday.add(1, 'day').getHolidayInfo()?.name).toBe('Thanksgiving')
+  })
+
+  it('should count rule-based holidays in ranges', () => {
+    // 2024-03-25 (Mon) .. 2024-03-29 (Good Friday)
+    expect(countBusinessDaysInRange(dayjs('2024-03-25'), dayjs('2024-03-29'), { holidays })).toBe(4)
+  })
+})
+
+describe('holiday observance', () => {
+  it('should treat the observed weekday as the holiday', () => {
+    const factory = new DayjsFactory({
+      plugins: [
+        createBusinessDayPlugin({
+          holidays: [
+            {
+              date: '2020-07-04',
+              name: 'Independence Day',
+              type: 'public',
+              recurring: true,
+              observance: 'nearestWeekday'
+            }
+          ]
+        })
+      ]
+    })
+    // 2026-07-04 is a Saturday, observed on Friday 2026-07-03
+    const thursday = factory.create({ input: '2026-07-02' })
+
+    expect(thursday.nextBusinessDay().format('YYYY-MM-DD')).toBe('2026-07-06')
+    expect(thursday.add(1, 'day').isHoliday()).toBe(true)
+  })
+})
+
+describe('make-up workdays', () => {
+  // 2024 National Day: Oct 1-7 off, Sep 29 (Sun) and Oct 12 (Sat) worked
+  const config = {
+    holidays: [1, 2, 3, 4, 5, 6, 7].map(
+      (day): Holiday => ({ date: `2024-10-0${day}`, name: '国庆节', type: 'public' })
+    ),
+    extraWorkdays: ['2024-09-29', '2024-10-12']
+  }
+
+  it('should treat make-up weekend days as business days', () => {
+    const factory = new DayjsFactory({ plugins: [createBusinessDayPlugin(config)] })
+    const saturday = factory.create({ input: '2024-09-28' })
+
+    expect(saturday.isBusinessDay()).toBe(false)
+    expect(saturday.nextBusinessDay().format('YYYY-MM-DD')).toBe('2024-09-29')
+    expect(saturday.add(1, 'day').addBusinessDays(1).format('YYYY-MM-DD')).toBe('2024-09-30')
+    expect(factory.create({ input: '2024-10-07' }).addBusinessDays(5).format('YYYY-MM-DD')).toBe(
+      '2024-10-12'
+    )
+  })
+
+  it('should count make-up workdays in ranges', () => {
+    // 2024-09-28 .. 2024-10-13: Sep 29, Sep 30, Oct 8-12
+    expect(countBusinessDaysInRange(dayjs('2024-09-28'), dayjs('2024-10-13'), config)).toBe(7)
+    expect(hasBusinessDaysInRange(dayjs('2024-10-12'), dayjs('2024-10-13'), config)).toBe(true)
+  })
+})
+
+describe('business hours', () => {
+  const factory = new DayjsFactory({
+    plugins: [
+      createBusinessDayPlugin({
+        holidays: [{ date: '2024-01-15', name: 'Closed', type: 'company' }],
+        businessHours: {
+          windows: [{ start: '09:00', end: '17:00' }],
+          breaks: [{ start: '12:00', end: '13:00' }],
+          timezone: 'UTC'
+        }
+      })
+    ]
+  })
+
+  it('should add SLA hours across the weekend and holidays', () => {
+    // Friday 15:00 + 8h: 2h on Friday, Monday closed, 6h on Tuesday (lunch skipped)
+    const friday = factory.create({ input: '2024-01-12T15:00:00Z' })
+    expect(friday.addBusinessHours(8).toISOString()).toBe('2024-01-16T16:00:00.000Z')
+    expect(friday.addBusinessMinutes(-90).toISOString()).toBe('2024-01-12T13:30:00.000Z')
+  })
+
+  it('should check and measure business hours', () => {
+    const start = factory.create({ input: '2024-01-12T15:00:00Z' })
+    expect(start.isWithinBusinessHours()).toBe(true)
+    expect(start.add(3, 'hour').isWithinBusinessHours()).toBe(false)
+    // Friday 15:00-17:00 and Tuesday 09:00-15:00 minus lunch
+    expect(start.businessMinutesBetween(start.add(4, 'day'))).toBe(420)
+    expect(start.businessMinutesBetween('2024-01-12T16:00:00Z')).toBe(60)
+  })
+
+  it('should throw without business hours like factory instances', () => {
+    const plain = new DayjsFactory({ plugins: [createBusinessDayPlugin()] })
+    const instance = plain.create({ input: '2024-01-12T15:00:00Z' })
+    expect(() => instance.isWithinBusinessHours()).toThrow('Business hours are not configured')
+    expect(() => instance.addBusinessMinutes(30)).toThrow(ValidationError)
+    expect(() => instance.businessMinutesBetween('2024-01-15T10:00:00Z')).toThrow(ValidationError)
+  })
+})
+
+describe('roll conventions', () => {
+  const factory = new DayjsFactory({
+    plugins: [
+      createBusinessDayPlugin({
+        holidays: [{ date: '2024-09-02', name: 'Labor Day', type: 'public' }],
+        rollConvention: 'modifiedFollowing'
+      })
+    ]
+  })
+
+  it('should roll with the configured convention', () => {
+    // Saturday Aug 31: following would leave the month (Sep 2 is a holiday)
+    const saturday = factory.create({ input: '2024-08-31' })
+    expect(saturday.rollToBusinessDay().format('YYYY-MM-DD')).toBe('2024-08-30')
+    expect(saturday.rollToBusinessDay('following').format('YYYY-MM-DD')).toBe('2024-09-03')
+    expect(saturday.rollToBusinessDay('none').format('YYYY-MM-DD')).toBe('2024-08-31')
+  })
+
+  it('should keep business days unchanged', () => {
+    const friday = factory.create({ input: '2024-08-30' })
+    expect(friday.rollToBusinessDay('preceding').format('YYYY-MM-DD')).toBe('2024-08-30')
+  })
+})
+
+describe('partial holidays', () => {
+  const config = {
+    holidays: [
+      { date: '2024-12-24', name: 'Christmas Eve', type: 'public', workdayWeight: 0.5 },
+      { date: '2024-12-25', name: 'Christmas', type: 'public' }
+    ] satisfies Holiday[]
+  }
+  const factory = new DayjsFactory({ plugins: [createBusinessDayPlugin(config)] })
+
+  it('should keep early-close days as business days', () => {
+    const christmasEve = factory.create({ input: '2024-12-24' })
+    expect(christmasEve.isBusinessDay()).toBe(true)
+    expect(christmasEve.isHoliday()).toBe(true)
+    expect(christmasEve.businessDayWeight()).toBe(0.5)
+    expect(christmasEve.add(1, 'day').businessDayWeight()).toBe(0)
+    expect(christmasEve.add(2, 'day').businessDayWeight()).toBe(1)
+    expect(christmasEve.add(1, 'day').nextBusinessDay().format('YYYY-MM-DD')).toBe('2024-12-26')
+  })
+
+  it('should expose fractional counts', () => {
+    const december = factory.create({ input: '2024-12-10' })
+    expect(december.getBusinessDaysInMonth()).toHaveLength(21)
+    expect(december.countFractionalBusinessDaysInMonth()).toBe(20.5)
+    expect(december.fractionalBusinessDaysBetween(december.add(20, 'day'))).toBe(12.5)
+    expect(
+      countBusinessDaysInRange(dayjs('2024-12-01'), dayjs('2024-12-31'), config, {
+        fractional: true
+      })
+    ).toBe(20.5)
+    expect(countBusinessDaysInRange(dayjs('2024-12-01'), dayjs('2024-12-31'), config)).toBe(21)
+  })
+})
+
+describe('composite calendars', () => {
+  const us = {
+    workdays: [1, 2, 3, 4, 5],
+    holidays: [{ date: '2024-07-04', name: 'Independence Day', type: 'public' }] satisfies Holiday[]
+  }
+  const uk = {
+    workdays: [1, 2, 3, 4, 5],
+    holidays: [{ date: '2024-08-26', name: 'Summer Bank Holiday', type: 'public' }] satisfies Holiday[]
+  }
+  const settlement = intersectCalendars(us, uk)
+  const factory = new DayjsFactory({ plugins: [createBusinessDayPlugin(settlement)] })
+
+  it('should accept a composite calendar as plugin configuration', () => {
+    const july3 = factory.create({ input: '2024-07-03' })
+    expect(july3.nextBusinessDay().format('YYYY-MM-DD')).toBe('2024-07-05')
+    expect(july3.add(1, 'day').isHoliday()).toBe(true)
+    expect(july3.add(1, 'day').getHolidayInfo()?.name).toBe('Independence Day')
+    expect(factory.create({ input: '2024-08-23' }).addBusinessDays(1).format('YYYY-MM-DD')).toBe(
+      '2024-08-27'
+    )
+  })
+
+  it('should count ranges over a union calendar', () => {
+    const either = unionCalendars(us, uk)
+    expect(countBusinessDaysInRange(dayjs('2024-07-01'), dayjs('2024-07-31'), settlement)).toBe(22)
+    expect(countBusinessDaysInRange(dayjs('2024-07-01'), dayjs('2024-07-31'), either)).toBe(23)
+  })
+})
+
+describe('nth business day queries', () => {
+  const holidays: Holiday[] = [{ date: '2024-03-29', name: 'Good Friday', type: 'public' }]
+  const factory = new DayjsFactory({
+    plugins: [createBusinessDayPlugin({ holidays }), createFinancialQuarterPlugin({ startMonth: 4 })]
+  })
+
+  it('should find the nth and last business day of the month', () => {
+    const march = factory.create({ input: '2024-03-15' })
+    expect(march.nthBusinessDayOfMonth(3)?.format('YYYY-MM-DD')).toBe('2024-03-05')
+    expect(march.nthBusinessDayOfMonth(-2)?.format('YYYY-MM-DD')).toBe('2024-03-27')
+    expect(march.lastBusinessDayOfMonth()?.format('YYYY-MM-DD')).toBe('2024-03-28')
+    expect(march.nthBusinessDayOfMonth(21)).toBeNull()
+  })
+
+  it('should find business days of the fiscal quarter', () => {
+    // Fiscal Q1 runs from April 1 to June 30
+    const may = factory.create({ input: '2024-05-15' })
+    expect(may.nthBusinessDayOfFiscalQuarter(1)?.format('YYYY-MM-DD')).toBe('2024-04-01')
+    expect(may.nthBusinessDayOfFiscalQuarter(-1)?.format('YYYY-MM-DD')).toBe('2024-06-28')
+  })
+
+  it('should require the financial-quarter plugin for fiscal quarters', () => {
+    const plain = new DayjsFactory({ plugins: [createBusinessDayPlugin({ holidays })] })
+    expect(() => plain.create({ input: '2024-05-15' }).nthBusinessDayOfFiscalQuarter(1)).toThrow(
+      'financial-quarter'
+    )
+  })
+})
@@ -1,21 +1,78 @@
-import type { PluginFunc, Dayjs } from 'dayjs'
-import type { Holiday, BusinessRules } from '@dayjs-business/core'
+import type { ConfigType, PluginFunc, Dayjs } from 'dayjs'
+import {
+  findHoliday as findHolidayIn,
+  isBusinessDate,
+  getBusinessDayWeight,
+  getNthBusinessDay,
+  resolveHolidays,
+  addBusinessDays,
+  businessDaysBetween,
+  countBusinessDays,
+  countFractionalBusinessDays,
+  fractionalBusinessDaysBetween,
+  addBusinessMinutes,
+  businessMinutesBetween,
+  isWithinBusinessHours,
+  rollDate,
+  RollConvention
+} from '@dayjs-business/core'
+import type {
+  BusinessDaySource,
+  BusinessHours,
+  CalendarCombination,
+  Holiday,
+  HolidayCalendarRegistry,
+  HolidayCalendarSnapshot
+} from '@dayjs-business/core'
 
 export interface BusinessDayConfig {
-  workdays?: number[]
-  holidays?: Holiday[]
+  workdays?: readonly number[]
+  holidays?: readonly Holiday[]
+  /** Make-up working days (YYYY-MM-DD) that are business days regardless of `workdays` */
+  extraWorkdays?: readonly string[]
+  /** Default convention of rollToBusinessDay (defaults to following) */
+  rollConvention?: RollConvention
+  /** Opening hours for business hours arithmetic (the business hours methods throw without) */
+  businessHours?: BusinessHours
+  /** Registry providing runtime-updatable holiday calendars */
+  registry?: HolidayCalendarRegistry
+  /** Registry calendar whose holidays apply in addition to `holidays` */
+  calendarId?: string
+  /** Member calendars of a composite calendar (see createCompositeCalendar) */
+  calendars?: readonly BusinessDaySource[]
+  /** How member calendars are combined (defaults to intersection) */
+  combine?: CalendarCombination
+}
+
+/**
+ * Options for business day range counts
+ */
+export interface BusinessDayCountOptions {
+  /** Count partial holidays (e.g. half-day Christmas Eve) as their workday weight */
+  fractional?: boolean
 }
 
 export interface BusinessDayMethods {
   isBusinessDay(): boolean
   nextBusinessDay(): Dayjs
   prevBusinessDay(): Dayjs
+  rollToBusinessDay(convention?: RollConvention): Dayjs
   addBusinessDays(days: number): Dayjs
   subtractBusinessDays(days: number): Dayjs
   businessDaysBetween(other: Dayjs): number
+  fractionalBusinessDaysBetween(other: Dayjs): number
+  businessDayWeight(): number
   getBusinessDaysInMonth(): Dayjs[]
+  countFractionalBusinessDaysInMonth(): number
+  nthBusinessDayOfMonth(n: number): Dayjs | null
+  lastBusinessDayOfMonth(): Dayjs | null
+  nthBusinessDayOfFiscalQuarter(n: number): Dayjs | null
   isHoliday(): boolean
   getHolidayInfo(): Holiday | null
+  isWithinBusinessHours(): boolean
+  addBusinessHours(hours: number): Dayjs
+  addBusinessMinutes(minutes: number): Dayjs
+  businessMinutesBetween(other: ConfigType): number
 }
 
 declare module 'dayjs' {
@@ -24,6 +81,14 @@ declare module 'dayjs' {
 
 const DEFAULT_WORKDAYS = [1, 2, 3, 4, 5] // Monday to Friday
 
+/**
+ * Fiscal quarter bounds added by the financial-quarter plugin when it is loaded
+ */
+interface FiscalQuarterBounds {
+  startOfFiscalQuarter?: (this: Dayjs) => Dayjs
+  endOfFiscalQuarter?: (this: Dayjs) => Dayjs
+}
+
 /**
  * Business Day Plugin for dayjs-business
  * Provides comprehensive business day calculations with holiday support
@@ -31,52 +96,47 @@ const DEFAULT_WORKDAYS = [1, 2, 3, 4, 5] // Monday to Friday
 export const businessDayPlugin: PluginFunc<BusinessDayConfig> = (
   option,
   dayjsClass,
-  _dayjsFactory
+  dayjsFactory
 ) => {
   const config: BusinessDayConfig = {
     workdays: option?.workdays ?? DEFAULT_WORKDAYS,
-    holidays: option?.holidays ?? []
+    holidays: option?.holidays ?? [],
+    extraWorkdays: option?.extraWorkdays ?? [],
+    rollConvention: option?.rollConvention ?? RollConvention.FOLLOWING,
+    businessHours: option?.businessHours,
+    registry: option?.registry,
+    calendarId: option?.calendarId,
+    calendars: option?.calendars,
+    combine: option?.combine
   }
 
   /**
-   * Check if a date is a workday (not considering holidays)
+   * Check if a date is a business day (registry calendars are read on every call)
    */
-  const isWorkday = (date: Dayjs): boolean => {
-    const dayOfWeek = date.day()
-    return (config.workdays ?? DEFAULT_WORKDAYS).includes(dayOfWeek)
+  const isBusinessDay = (date: Dayjs): boolean => {
+    return isBusinessDate(date, config, config.registry)
   }
 
   /**
-   * Check if a date is a holiday
+   * Check if a date is a holiday (registry calendars are read on every call)
    */
   const findHoliday = (date: Dayjs): Holiday | null => {
-    const dateStr = date.format('YYYY-MM-DD')
-    const holidays = config.holidays ?? []
-
-    for (const holiday of holidays) {
-      // Exact date match
-      if (holiday.date === dateStr) {
-        return holiday
-      }
-
-      // Recurring holiday check (same month and day)
-      if (holiday.recurring) {
-        const holidayMonth = parseInt(holiday.date.substring(5, 7), 10) - 1
-        const holidayDay = parseInt(holiday.date.substring(8, 10), 10)
-        if (date.month() === holidayMonth && date.date() === holidayDay) {
-          return holiday
-        }
-      }
-    }
-
-    return null
+    return findHolidayIn(resolveHolidays(config, config.registry), date)
   }
 
   /**
-   * Check if a date is a business day (workday and not a holiday)
+   * Check if a date is a business day (workday and not a full-day holiday)
    */
   dayjsClass.prototype.isBusinessDay = function (this: Dayjs): boolean {
-    return isWorkday(this) && findHoliday(this) === null
+    return isBusinessDay(this)
+  }
+
+  /**
+   * Get the share of a working day worked on the date: 0 for non-business
+   * days, the workday weight for partial holidays and 1 otherwise
+   */
+  dayjsClass.prototype.businessDayWeight = function (this: Dayjs): number {
+    return getBusinessDayWeight(this, config, config.registry)
   }
 
   /**
@@ -116,25 +176,24 @@ export const businessDayPlugin: PluginFunc<BusinessDayConfig> = (
   }
 
   /**
-   * Add business days to the date
+   * Roll the date to a business day if it is not one (see RollConvention)
    */
-  dayjsClass.prototype.addBusinessDays = function (this: Dayjs, days: number): Dayjs {
-    if (days === 0) {
-      return this
-    }
-
-    const direction = days > 0 ? 1 : -1
-    let remaining = Math.abs(days)
-    let current = this.clone()
-
-    while (remaining > 0) {
-      current = current.add(direction, 'day')
-      if (current.isBusinessDay()) {
-        remaining--
-      }
-    }
+  dayjsClass.prototype.rollToBusinessDay = function (
+    this: Dayjs,
+    convention?: RollConvention
+  ): Dayjs {
+    return rollDate(
+      this,
+      convention ?? config.rollConvention ?? RollConvention.FOLLOWING,
+      isBusinessDay
+    )
+  }
 
-    return current
+  /**
+   * Add business days to the date (whole weeks are skipped arithmetically)
+   */
+  dayjsClass.prototype.addBusinessDays = function (this: Dayjs, days: number): Dayjs {
+    return addBusinessDays(this, days, config, config.registry)
   }
 
   /**
@@ -148,20 +207,46 @@ export const businessDayPlugin: PluginFunc<BusinessDayConfig> = (
    * Calculate business days between two dates
    */
   dayjsClass.prototype.businessDaysBetween = function (this: Dayjs, other: Dayjs): number {
-    const start = this.isBefore(other) ? this : other
-    const end = this.isBefore(other) ? other : this
+    return businessDaysBetween(this, other, config, config.registry)
+  }
 
-    let count = 0
-    let current = start.clone()
+  /**
+   * Calculate business days between two dates, counting partial holidays as
+   * their workday weight
+   */
+  dayjsClass.prototype.fractionalBusinessDaysBetween = function (
+    this: Dayjs,
+    other: Dayjs
+  ): number {
+    return fractionalBusinessDaysBetween(this, other, config, config.registry)
+  }
 
-    while (current.isBefore(end, 'day')) {
-      current = current.add(1, 'day')
-      if (current.isBusinessDay()) {
-        count++
-      }
-    }
+  /**
+   * Check if the time falls within business hours of a business day
+   */
+  dayjsClass.prototype.isWithinBusinessHours = function (this: Dayjs): boolean {
+    return isWithinBusinessHours(this, config, config.registry)
+  }
 
-    return this.isBefore(other) ? count : -count
+  /**
+   * Add business hours, skipping closed hours, non-business days and holidays
+   */
+  dayjsClass.prototype.addBusinessHours = function (this: Dayjs, hours: number): Dayjs {
+    return addBusinessMinutes(this, hours * 60, config, config.registry)
+  }
+
+  /**
+   * Add business minutes, skipping closed hours, non-business days and holidays
+   */
+  dayjsClass.prototype.addBusinessMinutes = function (this: Dayjs, minutes: number): Dayjs {
+    return addBusinessMinutes(this, minutes, config, config.registry)
+  }
+
+  /**
+   * Calculate business minutes between two instants
+   */
+  dayjsClass.prototype.businessMinutesBetween = function (this: Dayjs, other: ConfigType): number {
+    return businessMinutesBetween(this, dayjsFactory(other), config, config.registry)
   }
 
   /**
@@ -183,6 +268,55 @@ export const businessDayPlugin: PluginFunc<BusinessDayConfig> = (
 
     return businessDays
   }
+
+  /**
+   * Count business days in the month, counting partial holidays as their
+   * workday weight (e.g. 21.5)
+   */
+  dayjsClass.prototype.countFractionalBusinessDaysInMonth = function (this: Dayjs): number {
+    return countFractionalBusinessDays(
+      this.startOf('month'),
+      this.endOf('month'),
+      config,
+      config.registry
+    )
+  }
+
+  /**
+   * Get the nth business day of the month (negative n counts from the end),
+   * or null if the month has fewer business days
+   */
+  dayjsClass.prototype.nthBusinessDayOfMonth = function (this: Dayjs, n: number): Dayjs | null {
+    return getNthBusinessDay(this.startOf('month'), this.endOf('month'), n, config, config.registry)
+  }
+
+  /**
+   * Get the last business day of the month
+   */
+  dayjsClass.prototype.lastBusinessDayOfMonth = function (this: Dayjs): Dayjs | null {
+    return this.nthBusinessDayOfMonth(-1)
+  }
+
+  /**
+   * Get the nth business day of the fiscal quarter (negative n counts from
+   * the end); requires the financial-quarter plugin
+   */
+  dayjsClass.prototype.nthBusinessDayOfFiscalQuarter = function (
+    this: Dayjs,
+    n: number
+  ): Dayjs | null {
+    const fiscal = this as unknown as FiscalQuarterBounds
+    if (fiscal.startOfFiscalQuarter === undefined || fiscal.endOfFiscalQuarter === undefined) {
+      throw new Error('nthBusinessDayOfFiscalQuarter requires the financial-quarter plugin')
+    }
+    return getNthBusinessDay(
+      fiscal.startOfFiscalQuarter.call(this),
+      fiscal.endOfFiscalQuarter.call(this),
+      n,
+      config,
+      config.registry
+    )
+  }
 }
 
 /**
@@ -196,10 +330,17 @@ export function createBusinessDayPlugin(config?: BusinessDayConfig): PluginFunc
 
 /**
  * Update holidays at runtime
+ *
+ * Atomically replaces the holidays of a registry calendar. Every plugin
+ * configured with the same registry and calendarId sees the change on its
+ * next call, without re-extending dayjs.
  */
-export function updateHolidays(holidays: Holiday[]): void {
-  // This function can be used to update holidays dynamically
-  // Implementation depends on how the plugin is initialized
+export function updateHolidays(
+  registry: HolidayCalendarRegistry,
+  calendarId: string,
+  holidays: Holiday[]
+): HolidayCalendarSnapshot {
+  return registry.set(calendarId, holidays)
 }
 
 /**
@@ -210,57 +351,22 @@ export function hasBusinessDaysInRange(
   end: Dayjs,
   config?: BusinessDayConfig
 ): boolean {
-  const workdays = config?.workdays ?? DEFAULT_WORKDAYS
-  const holidays = config?.holidays ?? []
-
-  let current = start.clone()
-
-  while (current.isBefore(end) || current.isSame(end, 'day')) {
-    const dayOfWeek = current.day()
-    const dateStr = current.format('YYYY-MM-DD')
-
-    const isWorkday = workdays.includes(dayOfWeek)
-    const isHoliday = holidays.some(h => h.date === dateStr)
-
-    if (isWorkday && !isHoliday) {
-      return true
-    }
-
-    current = current.add(1, 'day')
-  }
-
-  return false
+  return countBusinessDaysInRange(start, end, config) > 0
 }
 
 /**
- * Count business days in a date range
+ * Count business days in a date range (both ends inclusive); with
+ * `fractional`, partial holidays count as their workday weight
  */
 export function countBusinessDaysInRange(
   start: Dayjs,
   end: Dayjs,
-  config?: BusinessDayConfig
+  config?: BusinessDayConfig,
+  options?: BusinessDayCountOptions
 ): number {
-  const workdays = config?.workdays ?? DEFAULT_WORKDAYS
-  const holidays = config?.holidays ?? []
-
-  let count = 0
-  let current = start.clone()
-
-  while (current.isBefore(end) || current.isSame(end, 'day')) {
-    const dayOfWeek = current.day()
-    const dateStr = current.format('YYYY-MM-DD')
-
-    const isWorkday = workdays.includes(dayOfWeek)
-    const isHoliday = holidays.some(h => h.date === dateStr)
-
-    if (isWorkday && !isHoliday) {
-      count++
-    }
-
-    current = current.add(1, 'day')
-  }
-
-  return count
+  return options?.fractional === true
+    ? countFractionalBusinessDays(start, end, config, config?.registry)
+    : countBusinessDays(start, end, config, config?.registry)
 }
 
 export default businessDayPlugin
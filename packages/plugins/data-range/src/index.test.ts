@@ -11,6 +11,9 @@ import {
   findRangeGaps
 } from './index'
 import type { DataRangeConfig } from './index'
+import { DayjsFactory, ValidationError } from '@dayjs-business/core'
+import type { Holiday } from '@dayjs-business/core'
+import type { Dayjs } from 'dayjs'
 
 // Extend dayjs with required plugins
 dayjs.extend(quarterOfYear)
@@ -675,3 +678,63 @@ describe('findRangeGaps', () => {
     expect(gaps.length).toBe(0)
   })
 })
+
+describe('business-day ranges', () => {
+  const holidays: Holiday[] = [
+    { date: '2024-01-01', name: "New Year's Day", type: 'public' },
+    { date: '2024-01-15', name: 'Martin Luther King Jr. Day', type: 'public' }
+  ]
+  const factory = new DayjsFactory({
+    plugins: [createDataRangePlugin({ businessRules: { holidays } })]
+  })
+  const format = (range: { start: Dayjs; end: Dayjs }): string =>
+    `${range.start.format('YYYY-MM-DD')}..${range.end.format('YYYY-MM-DD')}`
+
+  it('should create ranges of the last N business days', () => {
+    const wednesday = factory.parse('2024-01-17')
+    const range = wednesday.rangeFromBusinessDays(5)
+    expect(format(range)).toBe('2024-01-10..2024-01-17')
+    expect(range.label).toBe('Last 5 Business Days')
+    // Weekends roll back to the previous business day
+    expect(format(factory.parse('2024-01-14').rangeFromBusinessDays(1))).toBe(
+      '2024-01-12..2024-01-12'
+    )
+  })
+
+  it('should exclude today when configured', () => {
+    const exclusive = new DayjsFactory({
+      plugins: [createDataRangePlugin({ includeToday: false, businessRules: { holidays } })]
+    })
+    expect(format(exclusive.parse('2024-01-17').rangeFromBusinessDays(5))).toBe(
+      '2024-01-09..2024-01-16'
+    )
+  })
+
+  it('should reject non-positive or fractional day counts', () => {
+    const date = factory.parse('2024-01-17')
+    expect(() => date.rangeFromBusinessDays(0)).toThrow(ValidationError)
+    expect(() => date.rangeFromBusinessDays(-3)).toThrow(ValidationError)
+    expect(() => date.rangeFromBusinessDays(1.5)).toThrow(
+      'Business day count must be a positive integer'
+    )
+  })
+
+  it('should split ranges by business day', () => {
+    const date = factory.parse('2024-01-17')
+    const split = date.splitRange(
+      date.customRange(dayjs('2024-01-12'), dayjs('2024-01-16')),
+      'businessDay'
+    )
+    expect(split.map(format)).toEqual(['2024-01-12..2024-01-12', '2024-01-16..2024-01-16'])
+  })
+
+  it('should trim periods to business days', () => {
+    const date = factory.parse('2024-01-17')
+    const range = date.customRange(dayjs('2024-01-01'), dayjs('2024-01-21'))
+    expect(date.splitRange(range, 'week', { businessDays: true }).map(format)).toEqual([
+      '2024-01-02..2024-01-05',
+      '2024-01-08..2024-01-12',
+      '2024-01-16..2024-01-19'
+    ])
+  })
+})
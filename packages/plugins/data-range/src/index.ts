@@ -1,9 +1,26 @@
 import type { PluginFunc, Dayjs, OpUnitType, QUnitType } from 'dayjs'
-import type { DateRange } from '@dayjs-business/core'
+import {
+  addBusinessDays,
+  getNthBusinessDay,
+  isBusinessDate,
+  rollDate,
+  ValidationError
+} from '@dayjs-business/core'
+import type { BusinessDaySource, DateRange, HolidayCalendarRegistry } from '@dayjs-business/core'
 
 // Combined unit type that includes both OpUnitType and QUnitType (for quarter support)
 type UnitType = OpUnitType | QUnitType
 
+/**
+ * Units accepted by splitRange: calendar units or single business days
+ */
+export type SplitUnit = UnitType | 'businessDay'
+
+export interface SplitRangeOptions {
+  /** Trim each period to its first and last business day, dropping periods without any */
+  businessDays?: boolean
+}
+
 export type RangePreset =
   | 'today'
   | 'yesterday'
@@ -33,6 +50,10 @@ export interface DataRangeConfig {
   includeToday?: boolean
   /** Custom presets */
   customPresets?: Record<string, (date: Dayjs) => DateRange>
+  /** Business rules of business-day ranges (defaults to Monday - Friday without holidays) */
+  businessRules?: BusinessDaySource
+  /** Registry providing the holidays of `businessRules.calendarId` */
+  registry?: HolidayCalendarRegistry
 }
 
 export interface DataRangeMethods {
@@ -41,9 +62,10 @@ export interface DataRangeMethods {
   rangeFromDays(days: number): DateRange
   rangeFromWeeks(weeks: number): DateRange
   rangeFromMonths(months: number): DateRange
+  rangeFromBusinessDays(days: number): DateRange
   comparePreviousPeriod(range: DateRange): DateRange
   compareYearOverYear(range: DateRange): DateRange
-  splitRange(range: DateRange, unit: UnitType): DateRange[]
+  splitRange(range: DateRange, unit: SplitUnit, options?: SplitRangeOptions): DateRange[]
   isInRange(range: DateRange): boolean
   overlapsRange(range: DateRange, other: DateRange): boolean
 }
@@ -64,7 +86,16 @@ export const dataRangePlugin: PluginFunc<DataRangeConfig> = (
   const config: DataRangeConfig = {
     weekStartsOn: option?.weekStartsOn ?? 1, // Monday default
     includeToday: option?.includeToday ?? true,
-    customPresets: option?.customPresets ?? {}
+    customPresets: option?.customPresets ?? {},
+    businessRules: option?.businessRules,
+    registry: option?.registry
+  }
+
+  /**
+   * Check if a date is a business day under the configured business rules
+   */
+  const isBusinessDay = (date: Dayjs): boolean => {
+    return isBusinessDate(date, config.businessRules, config.registry)
   }
 
   /**
@@ -242,6 +273,22 @@ export const dataRangePlugin: PluginFunc<DataRangeConfig> = (
     return createRange(start, end, `Last ${months} Months`)
   }
 
+  /**
+   * Create range for the last N business days, ending on the latest business
+   * day up to today (or yesterday when today is excluded)
+   * @throws {ValidationError} if days is not a positive integer
+   */
+  dayjsClass.prototype.rangeFromBusinessDays = function (this: Dayjs, days: number): DateRange {
+    if (!Number.isInteger(days) || days <= 0) {
+      throw new ValidationError('Business day count must be a positive integer', 'days', days)
+    }
+    const includeToday = config.includeToday ?? true
+    const reference = (includeToday ? this : this.subtract(1, 'day')).startOf('day')
+    const end = rollDate(reference, 'preceding', isBusinessDay)
+    const start = addBusinessDays(end, -(days - 1), config.businessRules, config.registry)
+    return createRange(start, end, `Last ${days} Business Days`)
+  }
+
   /**
    * Get previous period for comparison
    */
@@ -262,20 +309,33 @@ export const dataRangePlugin: PluginFunc<DataRangeConfig> = (
   }
 
   /**
-   * Split range into smaller ranges by unit
+   * Split range into smaller ranges by unit ('businessDay' yields one range
+   * per business day)
    */
   dayjsClass.prototype.splitRange = function (
     this: Dayjs,
     range: DateRange,
-    unit: UnitType
+    unit: SplitUnit,
+    options?: SplitRangeOptions
   ): DateRange[] {
     const ranges: DateRange[] = []
     let current = range.start
+    const periodUnit = unit === 'businessDay' ? 'day' : unit
+    const businessDaysOnly = unit === 'businessDay' || options?.businessDays === true
 
     while (current.isBefore(range.end) || current.isSame(range.end, 'day')) {
-      const periodEnd = current.endOf(unit as any)
+      const periodEnd = current.endOf(periodUnit as any)
       const actualEnd = periodEnd.isAfter(range.end) ? range.end : periodEnd
-      ranges.push(createRange(current, actualEnd))
+
+      if (!businessDaysOnly) {
+        ranges.push(createRange(current, actualEnd))
+      } else {
+        const first = getNthBusinessDay(current, actualEnd, 1, config.businessRules, config.registry)
+        const last = getNthBusinessDay(current, actualEnd, -1, config.businessRules, config.registry)
+        if (first && last) {
+          ranges.push(createRange(first, last))
+        }
+      }
       current = periodEnd.add(1, 'day').startOf('day')
     }
 
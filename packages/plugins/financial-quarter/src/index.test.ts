@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import dayjs from 'dayjs'
+import type { Dayjs } from 'dayjs'
 import quarterOfYear from 'dayjs/plugin/quarterOfYear'
 import {
   financialQuarterPlugin,
@@ -9,6 +10,8 @@ import {
   getFiscalQuarterLabel,
   getFiscalYearQuarters
 } from '../src'
+import type { FiscalYearConfig } from '../src'
+import { DayjsFactory } from '@dayjs-business/core'
 
 dayjs.extend(quarterOfYear)
 dayjs.extend(financialQuarterPlugin)
@@ -156,6 +159,189 @@ describe('financialQuarterPlugin', () => {
   })
 })
 
+describe('fiscal periods', () => {
+  const microsoft = new DayjsFactory({
+    plugins: [createFinancialQuarterPlugin(FiscalYearPresets.MICROSOFT)]
+  })
+  const uk = new DayjsFactory({
+    plugins: [createFinancialQuarterPlugin(FiscalYearPresets.UK_GOVERNMENT)]
+  })
+  const nrf = new DayjsFactory({
+    plugins: [createFinancialQuarterPlugin(FiscalYearPresets.NRF_RETAIL)]
+  })
+
+  it('should use calendar months as periods', () => {
+    const date = dayjs('2024-02-15')
+    expect(date.fiscalPeriod()).toBe(2)
+    expect(date.startOfFiscalPeriod().format('YYYY-MM-DD')).toBe('2024-02-01')
+    expect(date.endOfFiscalPeriod().format('YYYY-MM-DD')).toBe('2024-02-29')
+    expect(microsoft.parse('2024-02-15').fiscalPeriod()).toBe(8)
+  })
+
+  it('should start periods on the fiscal start day', () => {
+    expect(uk.parse('2024-05-05').fiscalPeriod()).toBe(1)
+    const date = uk.parse('2024-05-06')
+    expect(date.fiscalPeriod()).toBe(2)
+    expect(date.startOfFiscalPeriod().format('YYYY-MM-DD')).toBe('2024-05-06')
+    expect(date.endOfFiscalPeriod().format('YYYY-MM-DD')).toBe('2024-06-05')
+  })
+
+  it('should return complete period info', () => {
+    const info = nrf.parse('2023-03-01').fiscalPeriodInfo()
+    expect(info.period).toBe(2)
+    expect(info.quarter).toBe(1)
+    expect(info.year).toBe(2023)
+    expect(info.startDate.format('YYYY-MM-DD')).toBe('2023-02-26')
+    expect(info.endDate.format('YYYY-MM-DD')).toBe('2023-04-01')
+  })
+
+  it('should add periods', () => {
+    expect(dayjs('2024-01-31').addFiscalPeriods(1).format('YYYY-MM-DD')).toBe('2024-02-29')
+    expect(dayjs('2024-03-15').subtractFiscalPeriods(3).format('YYYY-MM-DD')).toBe('2023-12-15')
+    expect(nrf.parse('2023-03-01').addFiscalPeriods(1).format('YYYY-MM-DD')).toBe('2023-04-05')
+    // The last day of a 5-week period clamps to the end of a 4-week period
+    expect(nrf.parse('2023-04-01').addFiscalPeriods(1).format('YYYY-MM-DD')).toBe('2023-04-29')
+  })
+
+  it('should support 13-period calendars', () => {
+    const thirteen = new DayjsFactory({
+      plugins: [createFinancialQuarterPlugin({ startMonth: 1, weekPattern: '13x4' })]
+    })
+    const date = thirteen.parse('2024-12-28')
+    expect(date.fiscalPeriod()).toBe(13)
+    expect(date.fiscalQuarter()).toBe(4)
+    expect(date.startOfFiscalQuarter().format('YYYY-MM-DD')).toBe('2024-09-08')
+    expect(date.startOfFiscalPeriod().format('YYYY-MM-DD')).toBe('2024-12-01')
+  })
+})
+
+describe('fiscal year labeling', () => {
+  const withLabel = (config: FiscalYearConfig): DayjsFactory =>
+    new DayjsFactory({ plugins: [createFinancialQuarterPlugin(config)] })
+
+  it('should name fiscal years after the end year by default', () => {
+    const date = withLabel(FiscalYearPresets.MICROSOFT).parse('2024-08-15')
+    expect(date.fiscalYear()).toBe(2025)
+    expect(getFiscalYearLabel(date)).toBe('FY2025')
+  })
+
+  it('should name fiscal years after the start year', () => {
+    const date = withLabel({ ...FiscalYearPresets.MICROSOFT, yearLabel: 'startYear' }).parse(
+      '2024-08-15'
+    )
+    expect(date.fiscalYear()).toBe(2024)
+    expect(date.fiscalQuarterInfo().year).toBe(2024)
+    expect(getFiscalQuarterLabel(date)).toBe('Q1 FY2024')
+    expect(date.startOfFiscalYear().format('YYYY-MM-DD')).toBe('2024-07-01')
+  })
+
+  it('should name fiscal years by span', () => {
+    const factory = withLabel({ ...FiscalYearPresets.UK_GOVERNMENT, yearLabel: 'span' })
+    const date = factory.parse('2024-12-15')
+    expect(date.fiscalYear()).toBe(2024)
+    expect(date.fiscalYearName()).toBe('2024-25')
+    expect(getFiscalYearLabel(date)).toBe('FY2024-25')
+    expect(getFiscalQuarterLabel(factory.parse('2099-06-01'))).toBe('Q1 FY2099-00')
+  })
+
+  it('should not span calendar fiscal years', () => {
+    const date = withLabel({ startMonth: 1, yearLabel: 'span' }).parse('2024-06-15')
+    expect(date.fiscalYear()).toBe(2024)
+    expect(getFiscalYearLabel(date)).toBe('FY2024')
+  })
+
+  it('should label week-based fiscal years', () => {
+    const nrf = withLabel({ ...FiscalYearPresets.NRF_RETAIL, yearLabel: 'endYear' })
+    expect(nrf.parse('2024-02-03').fiscalYear()).toBe(2024)
+    expect(nrf.parse('2024-02-04').fiscalYear()).toBe(2025)
+  })
+
+  it('should reject unknown labeling strategies', () => {
+    expect(() => withLabel({ startMonth: 4, yearLabel: 'fiscal' as never })).toThrow(
+      'Invalid fiscal yearLabel'
+    )
+  })
+})
+
+describe('mid-month fiscal starts', () => {
+  const uk = new DayjsFactory({
+    plugins: [createFinancialQuarterPlugin(FiscalYearPresets.UK_GOVERNMENT)]
+  })
+  const monthEnd = new DayjsFactory({
+    plugins: [createFinancialQuarterPlugin({ startMonth: 1, startDay: 31 })]
+  })
+  const format = (date: Dayjs): string => date.format('YYYY-MM-DD')
+
+  it('should keep April 1-5 in the previous UK fiscal year', () => {
+    const april5 = uk.parse('2024-04-05')
+    expect(april5.fiscalYear()).toBe(2024)
+    expect(april5.fiscalQuarter()).toBe(4)
+    expect(format(april5.startOfFiscalQuarter())).toBe('2024-01-06')
+
+    const april6 = uk.parse('2024-04-06')
+    expect(april6.fiscalYear()).toBe(2025)
+    expect(april6.fiscalQuarter()).toBe(1)
+    expect(format(april6.endOfFiscalQuarter())).toBe('2024-07-05')
+  })
+
+  it('should move by quarters within UK quarter boundaries', () => {
+    expect(format(uk.parse('2024-05-20').addFiscalQuarters(1))).toBe('2024-08-20')
+    expect(format(uk.parse('2024-04-05').addFiscalQuarters(1))).toBe('2024-07-05')
+    expect(uk.parse('2024-04-05').fiscalQuartersBetween(uk.parse('2024-04-06'))).toBe(1)
+  })
+
+  it('should anchor month-end starts without drifting', () => {
+    expect(monthEnd.parse('2024-04-29').fiscalPeriod()).toBe(3)
+    expect(monthEnd.parse('2024-04-30').fiscalPeriod()).toBe(4)
+    expect(format(monthEnd.parse('2024-05-15').startOfFiscalQuarter())).toBe('2024-04-30')
+    expect(format(monthEnd.parse('2024-03-10').startOfFiscalPeriod())).toBe('2024-02-29')
+    expect(format(monthEnd.parse('2024-04-30').addFiscalQuarters(1))).toBe('2024-07-31')
+  })
+})
+
+describe('fiscal quarter properties across presets', () => {
+  const start = dayjs('2023-01-01')
+  const days = 731
+  // Coprime with 7 so the samples cycle through every weekday
+  const step = 5
+
+  for (const [name, preset] of Object.entries(FiscalYearPresets)) {
+    it(`should hold for ${name}`, () => {
+      const factory = new DayjsFactory({ plugins: [createFinancialQuarterPlugin(preset)] })
+
+      for (let i = 0; i < days; i += step) {
+        const date = factory.parse(start.add(i, 'day').format('YYYY-MM-DD'))
+        const quarter = date.fiscalQuarter()
+        const quarterStart = date.startOfFiscalQuarter()
+        const quarterEnd = date.endOfFiscalQuarter()
+        const context = `${name} ${date.format('YYYY-MM-DD')}`
+
+        // Quarters contain the date and tile the year without gaps
+        expect(quarterStart.isAfter(date), context).toBe(false)
+        expect(quarterEnd.isBefore(date), context).toBe(false)
+        const next = quarterEnd.add(1, 'day')
+        expect(next.fiscalQuarter(), context).toBe((quarter % 4) + 1)
+        expect(next.startOfFiscalQuarter().isSame(next.startOf('day')), context).toBe(true)
+        expect(date.startOfFiscalYear().fiscalQuarter(), context).toBe(1)
+        expect(date.endOfFiscalYear().fiscalQuarter(), context).toBe(4)
+        expect(Math.min(Math.ceil(date.fiscalPeriod() / 3), 4), context).toBe(quarter)
+
+        // Arithmetic lands the expected number of quarters away
+        for (const quarters of [-5, -1, 1, 4]) {
+          const shifted = date.addFiscalQuarters(quarters)
+          expect(date.fiscalQuartersBetween(shifted), `${context} ${quarters}`).toBe(quarters)
+        }
+        expect(date.addFiscalQuarters(4).fiscalQuarter(), context).toBe(quarter)
+
+        if (preset.weekPattern === undefined) {
+          const anchor = Math.min(preset.startDay ?? 1, quarterStart.daysInMonth())
+          expect(quarterStart.date(), context).toBe(anchor)
+        }
+      }
+    })
+  }
+})
+
 describe('createFinancialQuarterPlugin', () => {
   it('should create plugin with custom fiscal year', () => {
     const plugin = createFinancialQuarterPlugin(FiscalYearPresets.MICROSOFT)
@@ -206,3 +392,80 @@ describe('getFiscalYearQuarters', () => {
     expect(quarters[3]?.quarter).toBe(4)
   })
 })
+
+describe('week-based fiscal calendars', () => {
+  const nrf = new DayjsFactory({
+    plugins: [createFinancialQuarterPlugin(FiscalYearPresets.NRF_RETAIL)]
+  })
+  const retail445 = new DayjsFactory({
+    plugins: [createFinancialQuarterPlugin(FiscalYearPresets.RETAIL_445)]
+  })
+
+  it('should end the year on the Saturday nearest the end of January', () => {
+    const date = nrf.parse('2023-06-15')
+    expect(date.fiscalYear()).toBe(2023)
+    expect(getFiscalYearLabel(date)).toBe('FY2023')
+    expect(date.startOfFiscalYear().format('YYYY-MM-DD')).toBe('2023-01-29')
+    expect(date.endOfFiscalYear().format('YYYY-MM-DD')).toBe('2024-02-03')
+    expect(nrf.parse('2024-02-04').fiscalYear()).toBe(2024)
+  })
+
+  it('should add a 53rd week to the last period', () => {
+    const lastDay = nrf.parse('2024-02-03')
+    expect(lastDay.fiscalWeeksInYear()).toBe(53)
+    expect(lastDay.fiscalWeek()).toBe(53)
+    expect(lastDay.fiscalPeriod()).toBe(12)
+    expect(lastDay.startOfFiscalQuarter().format('YYYY-MM-DD')).toBe('2023-10-29')
+    expect(nrf.parse('2024-06-15').fiscalWeeksInYear()).toBe(52)
+  })
+
+  it('should split quarters into 4-5-4 week periods', () => {
+    expect(nrf.parse('2023-02-25').fiscalPeriod()).toBe(1)
+    expect(nrf.parse('2023-02-26').fiscalPeriod()).toBe(2)
+    expect(nrf.parse('2023-03-01').fiscalWeek()).toBe(5)
+    expect(nrf.parse('2023-04-01').fiscalPeriod()).toBe(2)
+    expect(nrf.parse('2023-04-02').fiscalPeriod()).toBe(3)
+
+    const date = nrf.parse('2023-06-15')
+    expect(date.fiscalQuarter()).toBe(2)
+    expect(date.startOfFiscalQuarter().format('YYYY-MM-DD')).toBe('2023-04-30')
+    expect(date.endOfFiscalQuarter().format('YYYY-MM-DD')).toBe('2023-07-29')
+  })
+
+  it('should split quarters into 4-4-5 week periods', () => {
+    const date = retail445.parse('2024-03-24')
+    expect(date.startOfFiscalYear().format('YYYY-MM-DD')).toBe('2023-12-31')
+    expect(date.fiscalPeriod()).toBe(3)
+    expect(date.fiscalQuarter()).toBe(1)
+    expect(retail445.parse('2024-01-28').fiscalPeriod()).toBe(2)
+    expect(retail445.parse('2024-03-31').fiscalQuarter()).toBe(2)
+    expect(retail445.parse('2024-12-30').fiscalYear()).toBe(2025)
+  })
+
+  it('should keep the offset within the quarter when adding quarters', () => {
+    expect(nrf.parse('2023-12-31').addFiscalQuarters(1).format('YYYY-MM-DD')).toBe('2024-04-07')
+    // The 14-week quarter's last day clamps to the end of a 13-week quarter
+    expect(nrf.parse('2024-02-03').subtractFiscalQuarters(1).format('YYYY-MM-DD')).toBe(
+      '2023-10-28'
+    )
+  })
+
+  it('should list the quarters of a 53-week year', () => {
+    const quarters = getFiscalYearQuarters(nrf.parse('2023-06-15'))
+    expect(quarters.map(q => q.endDate.format('YYYY-MM-DD'))).toEqual([
+      '2023-04-29',
+      '2023-07-29',
+      '2023-10-28',
+      '2024-02-03'
+    ])
+  })
+
+  it('should reject invalid week patterns', () => {
+    expect(
+      () =>
+        new DayjsFactory({
+          plugins: [createFinancialQuarterPlugin({ startMonth: 1, weekPattern: '4-4-4' as never })]
+        })
+    ).toThrow('Invalid fiscal weekPattern')
+  })
+})
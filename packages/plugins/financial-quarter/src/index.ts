@@ -1,15 +1,17 @@
 import type { PluginFunc, Dayjs } from 'dayjs'
-import type { FinancialQuarter } from '@dayjs-business/core'
+import { DEFAULT_FISCAL_YEAR, FiscalCalendar } from '@dayjs-business/core'
+import type { FinancialPeriod, FinancialQuarter, FiscalYearConfig } from '@dayjs-business/core'
 
-export interface FiscalYearConfig {
-  /** Month when fiscal year starts (1-12) */
-  startMonth: number
-  /** Day when fiscal year starts (1-31) */
-  startDay?: number
-}
+export type {
+  FiscalYearConfig,
+  FiscalWeekPattern,
+  FiscalYearEnd,
+  FiscalYearLabel
+} from '@dayjs-business/core'
 
 export interface FinancialQuarterMethods {
   fiscalYear(): number
+  fiscalYearName(): string
   fiscalQuarter(): 1 | 2 | 3 | 4
   fiscalQuarterInfo(): FinancialQuarter
   startOfFiscalYear(): Dayjs
@@ -21,173 +23,81 @@ export interface FinancialQuarterMethods {
   addFiscalQuarters(quarters: number): Dayjs
   subtractFiscalQuarters(quarters: number): Dayjs
   fiscalQuartersBetween(other: Dayjs): number
+  fiscalPeriod(): number
+  fiscalPeriodInfo(): FinancialPeriod
+  startOfFiscalPeriod(): Dayjs
+  endOfFiscalPeriod(): Dayjs
+  addFiscalPeriods(periods: number): Dayjs
+  subtractFiscalPeriods(periods: number): Dayjs
+  fiscalWeek(): number
+  fiscalWeeksInYear(): number
 }
 
 declare module 'dayjs' {
   interface Dayjs extends FinancialQuarterMethods {}
 }
 
-// Default: Calendar year (January 1)
-const DEFAULT_FISCAL_CONFIG: FiscalYearConfig = {
-  startMonth: 1,
-  startDay: 1
-}
-
 /**
  * Financial Quarter Plugin for dayjs-business
- * Supports custom fiscal year definitions for enterprise accounting
+ * Supports custom fiscal year definitions for enterprise accounting, including
+ * 52/53-week retail calendars (4-4-5, 4-5-4 and 5-4-4). The methods delegate
+ * to a FiscalCalendar; use FiscalCalendar directly for several fiscal years
+ * in one process.
  */
 export const financialQuarterPlugin: PluginFunc<FiscalYearConfig> = (
   option,
   dayjsClass,
   _dayjsFactory
 ) => {
-  const config: FiscalYearConfig = {
-    startMonth: option?.startMonth ?? DEFAULT_FISCAL_CONFIG.startMonth,
-    startDay: option?.startDay ?? DEFAULT_FISCAL_CONFIG.startDay
-  }
-
-  /**
-   * Calculate fiscal year for a given date
-   */
-  const calculateFiscalYear = (date: Dayjs): number => {
-    const fiscalStartMonth = config.startMonth - 1 // 0-indexed
-    const fiscalStartDay = config.startDay ?? 1
-
-    const year = date.year()
-    const month = date.month()
-    const day = date.date()
-
-    // If current date is before fiscal year start, it belongs to previous fiscal year
-    if (month < fiscalStartMonth || (month === fiscalStartMonth && day < fiscalStartDay)) {
-      return year
-    }
-
-    // If fiscal year starts in Jan, fiscal year equals calendar year
-    if (fiscalStartMonth === 0 && fiscalStartDay === 1) {
-      return year
-    }
-
-    // Otherwise, fiscal year is next calendar year
-    return year + 1
-  }
-
-  /**
-   * Calculate fiscal quarter for a given date
-   */
-  const calculateFiscalQuarter = (date: Dayjs): 1 | 2 | 3 | 4 => {
-    const fiscalStartMonth = config.startMonth - 1 // 0-indexed
-    const currentMonth = date.month()
-
-    // Calculate months since fiscal year start
-    let monthsFromFiscalStart = currentMonth - fiscalStartMonth
-    if (monthsFromFiscalStart < 0) {
-      monthsFromFiscalStart += 12
-    }
-
-    // Each quarter is 3 months
-    const quarterIndex = Math.floor(monthsFromFiscalStart / 3)
-    return (quarterIndex + 1) as 1 | 2 | 3 | 4
-  }
-
-  /**
-   * Get the start date of a fiscal year
-   */
-  const getFiscalYearStart = (date: Dayjs): Dayjs => {
-    const fiscalYear = calculateFiscalYear(date)
-    const fiscalStartMonth = config.startMonth - 1
-    const fiscalStartDay = config.startDay ?? 1
-
-    // Fiscal year 2024 for a July start would start July 1, 2023
-    let startYear = fiscalYear
-    if (fiscalStartMonth > 0 || fiscalStartDay > 1) {
-      startYear = fiscalYear - 1
-    }
-
-    return date.year(startYear).month(fiscalStartMonth).date(fiscalStartDay).startOf('day')
-  }
-
-  /**
-   * Get the end date of a fiscal year
-   */
-  const getFiscalYearEnd = (date: Dayjs): Dayjs => {
-    const startOfFiscalYear = getFiscalYearStart(date)
-    return startOfFiscalYear.add(1, 'year').subtract(1, 'day').endOf('day')
-  }
-
-  /**
-   * Get the start date of a fiscal quarter
-   */
-  const getFiscalQuarterStart = (date: Dayjs): Dayjs => {
-    const fiscalQuarter = calculateFiscalQuarter(date)
-    const startOfFiscalYear = getFiscalYearStart(date)
-
-    // Add months based on quarter (Q1=0, Q2=3, Q3=6, Q4=9)
-    const monthsToAdd = (fiscalQuarter - 1) * 3
-    return startOfFiscalYear.add(monthsToAdd, 'month').startOf('day')
-  }
-
-  /**
-   * Get the end date of a fiscal quarter
-   */
-  const getFiscalQuarterEnd = (date: Dayjs): Dayjs => {
-    const startOfQuarter = getFiscalQuarterStart(date)
-    return startOfQuarter.add(3, 'month').subtract(1, 'day').endOf('day')
-  }
+  const calendar = new FiscalCalendar({
+    ...option,
+    startMonth: option?.startMonth ?? DEFAULT_FISCAL_YEAR.startMonth
+  })
 
   // Dayjs prototype methods
 
   dayjsClass.prototype.fiscalYear = function (this: Dayjs): number {
-    return calculateFiscalYear(this)
+    return calendar.fiscalYearOf(this)
+  }
+
+  dayjsClass.prototype.fiscalYearName = function (this: Dayjs): string {
+    return calendar.fiscalYearNameOf(this)
   }
 
   dayjsClass.prototype.fiscalQuarter = function (this: Dayjs): 1 | 2 | 3 | 4 {
-    return calculateFiscalQuarter(this)
+    return calendar.quarterOf(this)
   }
 
   dayjsClass.prototype.fiscalQuarterInfo = function (this: Dayjs): FinancialQuarter {
-    return {
-      quarter: calculateFiscalQuarter(this),
-      year: calculateFiscalYear(this),
-      startDate: getFiscalQuarterStart(this),
-      endDate: getFiscalQuarterEnd(this)
-    }
+    return calendar.quarterInfoOf(this)
   }
 
   dayjsClass.prototype.startOfFiscalYear = function (this: Dayjs): Dayjs {
-    return getFiscalYearStart(this)
+    return calendar.startOfYear(this)
   }
 
   dayjsClass.prototype.endOfFiscalYear = function (this: Dayjs): Dayjs {
-    return getFiscalYearEnd(this)
+    return calendar.endOfYear(this)
   }
 
   dayjsClass.prototype.startOfFiscalQuarter = function (this: Dayjs): Dayjs {
-    return getFiscalQuarterStart(this)
+    return calendar.startOfQuarter(this)
   }
 
   dayjsClass.prototype.endOfFiscalQuarter = function (this: Dayjs): Dayjs {
-    return getFiscalQuarterEnd(this)
+    return calendar.endOfQuarter(this)
   }
 
   dayjsClass.prototype.isSameFiscalQuarter = function (this: Dayjs, other: Dayjs): boolean {
-    return (
-      calculateFiscalYear(this) === calculateFiscalYear(other) &&
-      calculateFiscalQuarter(this) === calculateFiscalQuarter(other)
-    )
+    return calendar.isSameQuarter(this, other)
   }
 
   dayjsClass.prototype.isSameFiscalYear = function (this: Dayjs, other: Dayjs): boolean {
-    return calculateFiscalYear(this) === calculateFiscalYear(other)
+    return calendar.isSameYear(this, other)
   }
 
   dayjsClass.prototype.addFiscalQuarters = function (this: Dayjs, quarters: number): Dayjs {
-    if (quarters === 0) {
-      return this
-    }
-
-    // Add 3 months per quarter
-    return this.add(quarters * 3, 'month')
+    return calendar.addQuarters(this, quarters)
   }
 
   dayjsClass.prototype.subtractFiscalQuarters = function (this: Dayjs, quarters: number): Dayjs {
@@ -195,15 +105,39 @@ export const financialQuarterPlugin: PluginFunc<FiscalYearConfig> = (
   }
 
   dayjsClass.prototype.fiscalQuartersBetween = function (this: Dayjs, other: Dayjs): number {
-    const thisYear = calculateFiscalYear(this)
-    const thisQuarter = calculateFiscalQuarter(this)
-    const otherYear = calculateFiscalYear(other)
-    const otherQuarter = calculateFiscalQuarter(other)
+    return calendar.quartersBetween(this, other)
+  }
 
-    const thisTotal = thisYear * 4 + thisQuarter
-    const otherTotal = otherYear * 4 + otherQuarter
+  dayjsClass.prototype.fiscalPeriod = function (this: Dayjs): number {
+    return calendar.periodOf(this)
+  }
+
+  dayjsClass.prototype.fiscalPeriodInfo = function (this: Dayjs): FinancialPeriod {
+    return calendar.periodInfoOf(this)
+  }
+
+  dayjsClass.prototype.startOfFiscalPeriod = function (this: Dayjs): Dayjs {
+    return calendar.startOfPeriod(this)
+  }
+
+  dayjsClass.prototype.endOfFiscalPeriod = function (this: Dayjs): Dayjs {
+    return calendar.endOfPeriod(this)
+  }
+
+  dayjsClass.prototype.addFiscalPeriods = function (this: Dayjs, periods: number): Dayjs {
+    return calendar.addPeriods(this, periods)
+  }
+
+  dayjsClass.prototype.subtractFiscalPeriods = function (this: Dayjs, periods: number): Dayjs {
+    return this.addFiscalPeriods(-periods)
+  }
+
+  dayjsClass.prototype.fiscalWeek = function (this: Dayjs): number {
+    return calendar.weekOf(this)
+  }
 
-    return otherTotal - thisTotal
+  dayjsClass.prototype.fiscalWeeksInYear = function (this: Dayjs): number {
+    return calendar.weeksInYearOf(this)
   }
 }
 
@@ -239,14 +173,29 @@ export const FiscalYearPresets = {
   JAPAN: { startMonth: 4, startDay: 1 } as FiscalYearConfig,
 
   /** Australia Government (Jul 1 - Jun 30) */
-  AUSTRALIA: { startMonth: 7, startDay: 1 } as FiscalYearConfig
+  AUSTRALIA: { startMonth: 7, startDay: 1 } as FiscalYearConfig,
+
+  /** NRF retail calendar (4-5-4, Saturday nearest Jan 31, named by start year) */
+  NRF_RETAIL: {
+    startMonth: 2,
+    weekPattern: '4-5-4',
+    weekEndsOn: 6,
+    yearEnd: 'nearest',
+    yearLabel: 'startYear'
+  } as FiscalYearConfig,
+
+  /** 4-4-5 retail calendar (last Saturday of December) */
+  RETAIL_445: { startMonth: 1, weekPattern: '4-4-5', weekEndsOn: 6 } as FiscalYearConfig,
+
+  /** 5-4-4 retail calendar (last Saturday of December) */
+  RETAIL_544: { startMonth: 1, weekPattern: '5-4-4', weekEndsOn: 6 } as FiscalYearConfig
 } as const
 
 /**
- * Get fiscal year label (e.g., "FY2024")
+ * Get fiscal year label (e.g., "FY2024", or "FY2024-25" with span labeling)
  */
 export function getFiscalYearLabel(date: Dayjs, prefix = 'FY'): string {
-  const fiscalYear = date.fiscalYear()
+  const fiscalYear = date.fiscalYearName()
   return `${prefix}${fiscalYear}`
 }
 
@@ -254,7 +203,7 @@ export function getFiscalYearLabel(date: Dayjs, prefix = 'FY'): string {
  * Get fiscal quarter label (e.g., "Q1 FY2024")
  */
 export function getFiscalQuarterLabel(date: Dayjs, prefix = 'FY'): string {
-  const fiscalYear = date.fiscalYear()
+  const fiscalYear = date.fiscalYearName()
   const fiscalQuarter = date.fiscalQuarter()
   return `Q${fiscalQuarter} ${prefix}${fiscalYear}`
 }
@@ -264,11 +213,12 @@ export function getFiscalQuarterLabel(date: Dayjs, prefix = 'FY'): string {
  */
 export function getFiscalYearQuarters(date: Dayjs): FinancialQuarter[] {
   const quarters: FinancialQuarter[] = []
-  const startOfYear = date.startOfFiscalYear()
+  let quarterStart = date.startOfFiscalYear()
 
   for (let i = 0; i < 4; i++) {
-    const quarterStart = startOfYear.add(i * 3, 'month')
-    quarters.push(quarterStart.fiscalQuarterInfo())
+    const info = quarterStart.fiscalQuarterInfo()
+    quarters.push(info)
+    quarterStart = info.endDate.add(1, 'day').startOf('day')
   }
 
   return quarters
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest'
+import type { Dayjs } from 'dayjs'
+import { DayjsFactory, RollConvention } from '@dayjs-business/core'
+import type { BillingCycle } from '@dayjs-business/core'
+import { createSubscriptionCyclePlugin, getBillingDatesInRange } from './index'
+import type { SubscriptionConfig } from './index'
+import { BillingDateService } from '../../../services/billing/src/index'
+
+const ymd = (date: Dayjs): string => date.format('YYYY-MM-DD')
+
+function createParser(config: SubscriptionConfig = {}): (input: string) => Dayjs {
+  const factory = new DayjsFactory({ plugins: [createSubscriptionCyclePlugin(config)] })
+  return input => factory.parse(input) as Dayjs
+}
+
+describe('month and year intervals', () => {
+  const parse = createParser()
+
+  it('should step by the cycle length from the billing day', () => {
+    const date = parse('2024-01-10')
+    expect(ymd(date.nextBillingDate('quarterly', 15))).toBe('2024-01-15')
+    expect(ymd(parse('2024-01-15').nextBillingDate('quarterly', 15))).toBe('2024-04-15')
+    expect(ymd(parse('2024-01-15').previousBillingDate('quarterly', 15))).toBe('2023-10-15')
+    expect(ymd(date.previousBillingDate('monthly', 15))).toBe('2023-12-15')
+  })
+
+  it('should list one billing date per cycle', () => {
+    const dates = (cycle: Parameters<Dayjs['nextBillingDate']>[0]): string[] =>
+      getBillingDatesInRange(parse('2024-01-10'), parse('2024-12-31'), cycle, 15).map(ymd)
+
+    expect(dates('quarterly')).toEqual(['2024-01-15', '2024-04-15', '2024-07-15', '2024-10-15'])
+    expect(dates({ count: 6, unit: 'month' })).toEqual(['2024-01-15', '2024-07-15'])
+    expect(dates({ count: 3, unit: 'year' })).toEqual(['2024-01-15'])
+    expect(dates('monthly')).toHaveLength(12)
+  })
+
+  it('should clamp the billing day to short months', () => {
+    const dates = getBillingDatesInRange(parse('2024-01-01'), parse('2024-04-30'), 'monthly', 31)
+    expect(dates.map(ymd)).toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30'])
+  })
+})
+
+describe('day and week intervals', () => {
+  const parse = createParser()
+  const biweekly = { count: 2, unit: 'week' } as const
+  const tenDays = { count: 10, unit: 'day' } as const
+
+  it('should keep weekly billing on the billing day of week', () => {
+    const wednesday = parse('2024-01-10')
+    expect(ymd(wednesday.nextBillingDate('weekly', 1))).toBe('2024-01-15')
+    expect(ymd(wednesday.previousBillingDate('weekly', 1))).toBe('2024-01-08')
+  })
+
+  it('should step biweekly cycles from the billing day of the week', () => {
+    for (const input of ['2024-01-08', '2024-01-10', '2024-01-14']) {
+      expect(ymd(parse(input).nextBillingDate(biweekly, 1))).toBe('2024-01-22')
+    }
+    expect(ymd(parse('2024-01-10').previousBillingDate(biweekly, 1))).toBe('2024-01-08')
+    expect(ymd(parse('2024-01-08').previousBillingDate(biweekly, 1))).toBe('2023-12-25')
+    expect(
+      getBillingDatesInRange(parse('2024-01-08'), parse('2024-02-29'), biweekly, 1).map(ymd)
+    ).toEqual(['2024-01-22', '2024-02-05', '2024-02-19'])
+  })
+
+  it('should step day intervals from the date', () => {
+    const date = parse('2024-01-08')
+    expect(ymd(date.nextBillingDate(tenDays, 1))).toBe('2024-01-18')
+    expect(ymd(date.previousBillingDate(tenDays, 1))).toBe('2023-12-29')
+    expect(getBillingDatesInRange(date, parse('2024-02-10'), tenDays, 1).map(ymd)).toEqual([
+      '2024-01-18',
+      '2024-01-28',
+      '2024-02-07'
+    ])
+  })
+
+  it('should agree with the billing service', () => {
+    const service = new BillingDateService()
+    const from = parse('2024-01-08')
+    const cycles: BillingCycle[] = [
+      'weekly',
+      biweekly,
+      { count: 4, unit: 'week' },
+      tenDays,
+      { count: 28, unit: 'day' }
+    ]
+
+    for (const cycle of cycles) {
+      expect(ymd(from.nextBillingDate(cycle, 1))).toBe(ymd(service.getNextBillingDate(from, cycle)))
+      expect(ymd(from.previousBillingDate(cycle, 1))).toBe(
+        ymd(service.getPreviousBillingDate(from, cycle))
+      )
+    }
+    expect(ymd(from.nextBillingDate({ count: 28, unit: 'day' }))).toBe('2024-02-05')
+  })
+})
+
+describe('roll conventions', () => {
+  it('should not feed rolled dates back into the schedule', () => {
+    const preceding = createParser({ skipWeekends: true, rollConvention: RollConvention.PRECEDING })
+    const dates = getBillingDatesInRange(
+      preceding('2024-03-01'),
+      preceding('2024-06-30'),
+      'monthly',
+      31
+    )
+    // March 31 and June 30 are Sundays
+    expect(dates.map(ymd)).toEqual(['2024-03-29', '2024-04-30', '2024-05-31', '2024-06-28'])
+
+    const following = createParser({ skipWeekends: true })
+    const quarters = getBillingDatesInRange(
+      following('2024-03-01'),
+      following('2024-12-31'),
+      'quarterly',
+      31
+    )
+    expect(quarters.map(ymd)).toEqual(['2024-04-01', '2024-07-01', '2024-09-30', '2024-12-31'])
+  })
+})
+
+describe('anchored billing', () => {
+  const parse = createParser()
+  const anchor = parse('2024-01-31')
+
+  it('should bill from the anchor without drifting', () => {
+    expect(ymd(parse('2024-02-10').nextAnchoredBillingDate(anchor, 'monthly'))).toBe('2024-02-29')
+    expect(ymd(parse('2024-02-29').nextAnchoredBillingDate(anchor, 'monthly'))).toBe('2024-03-31')
+    expect(ymd(parse('2024-03-15').previousAnchoredBillingDate(anchor, 'monthly'))).toBe(
+      '2024-02-29'
+    )
+    expect(
+      ymd(parse('2024-02-01').nextAnchoredBillingDate(anchor, { count: 2, unit: 'week' }))
+    ).toBe('2024-02-14')
+  })
+
+  it('should roll only the returned dates', () => {
+    // March 31 is a Sunday
+    const following = createParser({ skipWeekends: true })
+    const start = following('2024-01-31')
+    expect(ymd(following('2024-03-10').nextAnchoredBillingDate(start, 'monthly'))).toBe(
+      '2024-04-01'
+    )
+    expect(ymd(following('2024-04-01').nextAnchoredBillingDate(start, 'monthly'))).toBe(
+      '2024-04-30'
+    )
+  })
+
+  it('should describe the anchored cycle in subscriptionInfo', () => {
+    const info = parse('2024-03-15').subscriptionInfo(anchor, 'monthly', undefined, anchor)
+    expect(ymd(info.startDate)).toBe('2024-02-29')
+    expect(ymd(info.endDate)).toBe('2024-03-30')
+    expect(ymd(info.billingDate)).toBe('2024-03-31')
+    expect(info.daysRemaining).toBe(16)
+    expect(info.cycleNumber).toBe(2)
+  })
+
+  it('should list anchored billing dates in a range', () => {
+    const dates = getBillingDatesInRange(anchor, parse('2024-05-31'), 'monthly', undefined, anchor)
+    expect(dates.map(ymd)).toEqual(['2024-02-29', '2024-03-31', '2024-04-30', '2024-05-31'])
+  })
+})
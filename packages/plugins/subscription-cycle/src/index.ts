@@ -1,11 +1,25 @@
 import type { PluginFunc, Dayjs } from 'dayjs'
-import type { SubscriptionCycle, BillingDate } from '@dayjs-business/core'
+import {
+  RollConvention,
+  getAnchoredBillingDate,
+  getAnchoredBillingIndex,
+  getCycleDays,
+  getCycleMonths,
+  getNextAnchoredBillingDate,
+  getPreviousAnchoredBillingDate,
+  isWeekendDay,
+  rollDate,
+  toBillingInterval
+} from '@dayjs-business/core'
+import type { BillingCycle, BillingDate } from '@dayjs-business/core'
 
 export interface SubscriptionConfig {
-  /** Billing day of month (1-31) */
+  /** Billing day of month (1-31), or day of week (0-6) for week intervals */
   billingDay?: number
-  /** Whether to skip weekends for billing */
+  /** Whether to skip weekends for billing (rolls forward unless `rollConvention` is set) */
   skipWeekends?: boolean
+  /** How billing dates on weekends are rolled */
+  rollConvention?: RollConvention
   /** Grace period in days after billing date */
   gracePeriod?: number
   /** Trial period in days */
@@ -13,7 +27,7 @@ export interface SubscriptionConfig {
 }
 
 export interface SubscriptionInfo {
-  cycle: SubscriptionCycle
+  cycle: BillingCycle
   startDate: Dayjs
   endDate: Dayjs
   billingDate: Dayjs
@@ -23,17 +37,20 @@ export interface SubscriptionInfo {
 }
 
 export interface SubscriptionCycleMethods {
-  nextBillingDate(cycle: SubscriptionCycle, billingDay?: number): Dayjs
-  previousBillingDate(cycle: SubscriptionCycle, billingDay?: number): Dayjs
+  nextBillingDate(cycle: BillingCycle, billingDay?: number): Dayjs
+  previousBillingDate(cycle: BillingCycle, billingDay?: number): Dayjs
+  nextAnchoredBillingDate(anchor: Dayjs, cycle: BillingCycle): Dayjs
+  previousAnchoredBillingDate(anchor: Dayjs, cycle: BillingCycle): Dayjs
   subscriptionInfo(
     subscriptionStart: Dayjs,
-    cycle: SubscriptionCycle,
-    billingDay?: number
+    cycle: BillingCycle,
+    billingDay?: number,
+    anchor?: Dayjs
   ): SubscriptionInfo
   isInTrialPeriod(subscriptionStart: Dayjs, trialDays: number): boolean
-  daysUntilBilling(cycle: SubscriptionCycle, billingDay?: number): number
-  cycleStartDate(cycle: SubscriptionCycle, billingDay?: number): Dayjs
-  cycleEndDate(cycle: SubscriptionCycle, billingDay?: number): Dayjs
+  daysUntilBilling(cycle: BillingCycle, billingDay?: number): number
+  cycleStartDate(cycle: BillingCycle, billingDay?: number): Dayjs
+  cycleEndDate(cycle: BillingCycle, billingDay?: number): Dayjs
   alignToBillingDay(billingDay: number): Dayjs
 }
 
@@ -43,6 +60,66 @@ declare module 'dayjs' {
 
 const DEFAULT_BILLING_DAY = 1
 
+/**
+ * Adjust billing day for months with fewer days
+ */
+function adjustBillingDay(date: Dayjs, targetDay: number): Dayjs {
+  const daysInMonth = date.daysInMonth()
+  const actualDay = Math.min(targetDay, daysInMonth)
+  return date.date(actualDay)
+}
+
+/**
+ * Get the billing date of a date's own cycle for day and week intervals: the
+ * date itself, or the billing day of its week for week intervals
+ */
+function getReferenceDate(date: Dayjs, cycle: BillingCycle, billingDay: number): Dayjs {
+  const start = date.startOf('day')
+  return toBillingInterval(cycle).unit === 'week'
+    ? start.subtract((start.day() - billingDay + 7) % 7, 'day')
+    : start
+}
+
+/**
+ * Get the first billing date after a date, before rolling. Intervals step by
+ * the cycle length from the billing day of the date's week or month, or from
+ * the date itself for day intervals.
+ */
+function getScheduledBillingDate(date: Dayjs, cycle: BillingCycle, billingDay: number): Dayjs {
+  const days = getCycleDays(cycle)
+  if (days > 0) {
+    return getReferenceDate(date, cycle, billingDay).add(days, 'day')
+  }
+
+  const months = getCycleMonths(cycle)
+  let next = adjustBillingDay(date.add(1, 'day').startOf('month'), billingDay)
+  while (!next.isAfter(date, 'day')) {
+    next = adjustBillingDay(next.add(months, 'month'), billingDay)
+  }
+  return next.startOf('day')
+}
+
+/**
+ * Get the last billing date before a date, before rolling
+ */
+function getPreviousScheduledBillingDate(
+  date: Dayjs,
+  cycle: BillingCycle,
+  billingDay: number
+): Dayjs {
+  const days = getCycleDays(cycle)
+  if (days > 0) {
+    const reference = getReferenceDate(date, cycle, billingDay)
+    return reference.isBefore(date, 'day') ? reference : reference.subtract(days, 'day')
+  }
+
+  let previous = adjustBillingDay(date.startOf('month'), billingDay)
+  if (!previous.isBefore(date, 'day')) {
+    previous = adjustBillingDay(previous.subtract(getCycleMonths(cycle), 'month'), billingDay)
+  }
+  return previous.startOf('day')
+}
+
 /**
  * Subscription Cycle Plugin for dayjs-business
  * Handles billing cycles, trial periods, and subscription management
@@ -55,89 +132,32 @@ export const subscriptionCyclePlugin: PluginFunc<SubscriptionConfig> = (
   const config: SubscriptionConfig = {
     billingDay: option?.billingDay ?? DEFAULT_BILLING_DAY,
     skipWeekends: option?.skipWeekends ?? false,
+    rollConvention: option?.rollConvention,
     gracePeriod: option?.gracePeriod ?? 0,
     trialPeriod: option?.trialPeriod ?? 0
   }
 
   /**
-   * Get the duration of a cycle in months
-   */
-  const getCycleMonths = (cycle: SubscriptionCycle): number => {
-    switch (cycle) {
-      case 'weekly':
-        return 0 // Handled separately
-      case 'monthly':
-        return 1
-      case 'quarterly':
-        return 3
-      case 'yearly':
-        return 12
-    }
-  }
-
-  /**
-   * Adjust billing day for months with fewer days
-   */
-  const adjustBillingDay = (date: Dayjs, targetDay: number): Dayjs => {
-    const daysInMonth = date.daysInMonth()
-    const actualDay = Math.min(targetDay, daysInMonth)
-    return date.date(actualDay)
-  }
-
-  /**
-   * Skip to next business day if needed
+   * Roll a billing date off the weekend according to the roll convention
    */
   const skipWeekendIfNeeded = (date: Dayjs): Dayjs => {
-    if (!config.skipWeekends) {
-      return date
-    }
-
-    let adjusted = date
-    const dayOfWeek = adjusted.day()
-
-    // Saturday -> Monday
-    if (dayOfWeek === 6) {
-      adjusted = adjusted.add(2, 'day')
-    }
-    // Sunday -> Monday
-    else if (dayOfWeek === 0) {
-      adjusted = adjusted.add(1, 'day')
-    }
-
-    return adjusted
+    const convention =
+      config.rollConvention ??
+      (config.skipWeekends === true ? RollConvention.FOLLOWING : RollConvention.NONE)
+    return rollDate(date, convention, day => !isWeekendDay(day))
   }
 
   /**
-   * Calculate next billing date
+   * Calculate next billing date on the billing day (see nextAnchoredBillingDate
+   * for subscriptions billed from their start date)
    */
   dayjsClass.prototype.nextBillingDate = function (
     this: Dayjs,
-    cycle: SubscriptionCycle,
+    cycle: BillingCycle,
     billingDay?: number
   ): Dayjs {
     const day = billingDay ?? config.billingDay ?? DEFAULT_BILLING_DAY
-
-    if (cycle === 'weekly') {
-      // For weekly, billing is on the same day of week as the start
-      const daysUntilNext = 7 - ((this.day() - day + 7) % 7)
-      let next = this.add(daysUntilNext === 7 ? 0 : daysUntilNext, 'day')
-      if (next.isSame(this, 'day') || next.isBefore(this)) {
-        next = next.add(7, 'day')
-      }
-      return skipWeekendIfNeeded(next.startOf('day'))
-    }
-
-    const months = getCycleMonths(cycle)
-    let nextDate = this.add(1, 'month').date(1)
-    nextDate = adjustBillingDay(nextDate, day)
-
-    // If the calculated date is before or same as current, move forward
-    if (nextDate.isBefore(this) || nextDate.isSame(this, 'day')) {
-      nextDate = nextDate.add(months, 'month')
-      nextDate = adjustBillingDay(nextDate, day)
-    }
-
-    return skipWeekendIfNeeded(nextDate.startOf('day'))
+    return skipWeekendIfNeeded(getScheduledBillingDate(this, cycle, day))
   }
 
   /**
@@ -145,52 +165,75 @@ export const subscriptionCyclePlugin: PluginFunc<SubscriptionConfig> = (
    */
   dayjsClass.prototype.previousBillingDate = function (
     this: Dayjs,
-    cycle: SubscriptionCycle,
+    cycle: BillingCycle,
     billingDay?: number
   ): Dayjs {
     const day = billingDay ?? config.billingDay ?? DEFAULT_BILLING_DAY
+    return skipWeekendIfNeeded(getPreviousScheduledBillingDate(this, cycle, day))
+  }
 
-    if (cycle === 'weekly') {
-      const daysSinceLast = (this.day() - day + 7) % 7
-      const prev = this.subtract(daysSinceLast === 0 ? 7 : daysSinceLast, 'day')
-      return skipWeekendIfNeeded(prev.startOf('day'))
-    }
-
-    const months = getCycleMonths(cycle)
-    let prevDate = this.date(1)
-    prevDate = adjustBillingDay(prevDate, day)
-
-    // If the calculated date is after or same as current, move backward
-    if (prevDate.isAfter(this) || prevDate.isSame(this, 'day')) {
-      prevDate = prevDate.subtract(months, 'month')
-      prevDate = adjustBillingDay(prevDate, day)
-    }
+  /**
+   * Calculate the next billing date of a subscription billed from an anchor
+   * date (e.g. its start): Jan 31 → Feb 29 → Mar 31
+   */
+  dayjsClass.prototype.nextAnchoredBillingDate = function (
+    this: Dayjs,
+    anchor: Dayjs,
+    cycle: BillingCycle
+  ): Dayjs {
+    return skipWeekendIfNeeded(getNextAnchoredBillingDate(anchor, this, cycle))
+  }
 
-    return skipWeekendIfNeeded(prevDate.startOf('day'))
+  /**
+   * Calculate the previous billing date of a subscription billed from an anchor date
+   */
+  dayjsClass.prototype.previousAnchoredBillingDate = function (
+    this: Dayjs,
+    anchor: Dayjs,
+    cycle: BillingCycle
+  ): Dayjs {
+    return skipWeekendIfNeeded(getPreviousAnchoredBillingDate(anchor, this, cycle))
   }
 
   /**
-   * Get subscription information
+   * Get subscription information. With an anchor (usually the subscription
+   * start), cycles follow the anchored schedule and `billingDay` is ignored.
    */
   dayjsClass.prototype.subscriptionInfo = function (
     this: Dayjs,
     subscriptionStart: Dayjs,
-    cycle: SubscriptionCycle,
-    billingDay?: number
+    cycle: BillingCycle,
+    billingDay?: number,
+    anchor?: Dayjs
   ): SubscriptionInfo {
     const day = billingDay ?? config.billingDay ?? DEFAULT_BILLING_DAY
     const trialDays = config.trialPeriod ?? 0
 
     const isInTrial = trialDays > 0 && this.diff(subscriptionStart, 'day') < trialDays
 
+    if (anchor) {
+      const index = getAnchoredBillingIndex(anchor, this, cycle)
+      const billingDate = skipWeekendIfNeeded(getAnchoredBillingDate(anchor, cycle, index + 1))
+      return {
+        cycle,
+        startDate: skipWeekendIfNeeded(getAnchoredBillingDate(anchor, cycle, index)),
+        endDate: billingDate.subtract(1, 'day'),
+        billingDate,
+        isTrialPeriod: isInTrial,
+        daysRemaining: billingDate.diff(this, 'day'),
+        cycleNumber: Math.max(1, index + 1)
+      }
+    }
+
     const cycleStart = this.previousBillingDate(cycle, day)
     const cycleEnd = this.nextBillingDate(cycle, day).subtract(1, 'day')
     const nextBilling = this.nextBillingDate(cycle, day)
 
     // Calculate cycle number
     let cycleNumber = 1
-    if (cycle === 'weekly') {
-      cycleNumber = Math.floor(this.diff(subscriptionStart, 'week')) + 1
+    const cycleDays = getCycleDays(cycle)
+    if (cycleDays > 0) {
+      cycleNumber = Math.floor(this.diff(subscriptionStart, 'day') / cycleDays) + 1
     } else {
       const months = getCycleMonths(cycle)
       cycleNumber = Math.floor(this.diff(subscriptionStart, 'month') / months) + 1
@@ -224,7 +267,7 @@ export const subscriptionCyclePlugin: PluginFunc<SubscriptionConfig> = (
    */
   dayjsClass.prototype.daysUntilBilling = function (
     this: Dayjs,
-    cycle: SubscriptionCycle,
+    cycle: BillingCycle,
     billingDay?: number
   ): number {
     const nextBilling = this.nextBillingDate(cycle, billingDay)
@@ -232,22 +275,23 @@ export const subscriptionCyclePlugin: PluginFunc<SubscriptionConfig> = (
   }
 
   /**
-   * Get current cycle start date
+   * Get current cycle start date on the billing day schedule (pass an anchor
+   * to subscriptionInfo for anchored subscriptions)
    */
   dayjsClass.prototype.cycleStartDate = function (
     this: Dayjs,
-    cycle: SubscriptionCycle,
+    cycle: BillingCycle,
     billingDay?: number
   ): Dayjs {
     return this.previousBillingDate(cycle, billingDay)
   }
 
   /**
-   * Get current cycle end date
+   * Get current cycle end date on the billing day schedule
    */
   dayjsClass.prototype.cycleEndDate = function (
     this: Dayjs,
-    cycle: SubscriptionCycle,
+    cycle: BillingCycle,
     billingDay?: number
   ): Dayjs {
     return this.nextBillingDate(cycle, billingDay).subtract(1, 'day')
@@ -289,31 +333,55 @@ export function calculateProratedAmount(
 }
 
 /**
- * Get all billing dates in a date range
+ * Get all billing dates after start through end. With an anchor, the dates
+ * follow the anchored schedule and `billingDay` is ignored.
  */
 export function getBillingDatesInRange(
   start: Dayjs,
   end: Dayjs,
-  cycle: SubscriptionCycle,
-  billingDay = 1
+  cycle: BillingCycle,
+  billingDay = 1,
+  anchor?: Dayjs
 ): Dayjs[] {
   const dates: Dayjs[] = []
-  let current = start.nextBillingDate(cycle, billingDay)
 
-  while (current.isBefore(end) || current.isSame(end, 'day')) {
-    dates.push(current)
-    current = current.nextBillingDate(cycle, billingDay)
+  if (anchor) {
+    for (let index = getAnchoredBillingIndex(anchor, start, cycle) + 1; ; index++) {
+      const date = getAnchoredBillingDate(anchor, cycle, index)
+      if (date.isAfter(end, 'day')) {
+        break
+      }
+      dates.push(date.subtract(1, 'day').nextAnchoredBillingDate(anchor, cycle))
+    }
+    return dates
+  }
+  const first = getScheduledBillingDate(start, cycle, billingDay)
+  const days = getCycleDays(cycle)
+  const months = getCycleMonths(cycle)
+
+  for (let index = 0; ; index++) {
+    const date =
+      days > 0
+        ? first.add(index * days, 'day')
+        : adjustBillingDay(first.add(index * months, 'month'), billingDay)
+    if (date.isAfter(end, 'day')) {
+      break
+    }
+    // Roll through the plugin with a one-day step from the day before, so
+    // rolled dates never feed back into the schedule
+    dates.push(date.subtract(1, 'day').nextBillingDate({ count: 1, unit: 'day' }))
   }
 
   return dates
 }
 
 /**
- * Calculate subscription renewal date considering trial period
+ * Calculate subscription renewal date considering trial period, on the billing
+ * day (use nextAnchoredBillingDate for anchored subscriptions)
  */
 export function calculateRenewalDate(
   subscriptionStart: Dayjs,
-  cycle: SubscriptionCycle,
+  cycle: BillingCycle,
   trialDays = 0,
   billingDay?: number
 ): Dayjs {
@@ -325,11 +393,12 @@ export function calculateRenewalDate(
 }
 
 /**
- * Check if subscription is due for renewal
+ * Check if subscription is due for renewal on the billing day schedule (for
+ * anchored subscriptions, compare against nextAnchoredBillingDate)
  */
 export function isDueForRenewal(
   currentDate: Dayjs,
-  cycle: SubscriptionCycle,
+  cycle: BillingCycle,
   billingDay?: number,
   gracePeriodDays = 0
 ): boolean {
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import type { DateRange, FiscalYearConfig } from '@dayjs-business/core'
+import { AnalyticsRangeService } from './index'
+
+const format = (range: DateRange): string =>
+  `${range.start.format('YYYY-MM-DD')}..${range.end.format('YYYY-MM-DD')}`
+
+const NRF: FiscalYearConfig = {
+  startMonth: 2,
+  weekPattern: '4-5-4',
+  weekEndsOn: 6,
+  yearEnd: 'nearest'
+}
+
+describe('fiscal presets', () => {
+  it('should follow a July fiscal year', () => {
+    const service = new AnalyticsRangeService({ fiscalYear: { startMonth: 7 } })
+    const preset = (key: Parameters<typeof service.getPresetRange>[0]): string =>
+      format(service.getPresetRange(key, '2024-08-15'))
+
+    expect(preset('thisFiscalQuarter')).toBe('2024-07-01..2024-09-30')
+    expect(preset('lastFiscalQuarter')).toBe('2024-04-01..2024-06-30')
+    expect(preset('fiscalQuarterToDate')).toBe('2024-07-01..2024-08-15')
+    expect(preset('fiscalYearToDate')).toBe('2024-07-01..2024-08-15')
+    expect(preset('lastFiscalYear')).toBe('2023-07-01..2024-06-30')
+    expect(service.getPresetRange('lastFiscalYear', '2024-08-15').label).toBe('Last Fiscal Year')
+  })
+
+  it('should follow an October fiscal year', () => {
+    const service = new AnalyticsRangeService({ fiscalYear: { startMonth: 10 } })
+    expect(format(service.getPresetRange('thisFiscalQuarter', '2024-11-20'))).toBe(
+      '2024-10-01..2024-12-31'
+    )
+    expect(format(service.getPresetRange('lastFiscalYear', '2024-11-20'))).toBe(
+      '2023-10-01..2024-09-30'
+    )
+  })
+
+  it('should follow a 52/53-week fiscal year', () => {
+    const service = new AnalyticsRangeService({ fiscalYear: NRF })
+    expect(format(service.getPresetRange('thisFiscalQuarter', '2024-01-15'))).toBe(
+      '2023-10-29..2024-02-03'
+    )
+    expect(format(service.getPresetRange('lastFiscalYear', '2024-03-01'))).toBe(
+      '2023-01-29..2024-02-03'
+    )
+  })
+
+  it('should reject invalid fiscal years', () => {
+    expect(() => new AnalyticsRangeService({ fiscalYear: { startMonth: 13 } })).toThrow(
+      'Invalid fiscal startMonth'
+    )
+  })
+})
+
+describe('fiscal comparisons', () => {
+  const july = new AnalyticsRangeService({ fiscalYear: { startMonth: 7 } })
+  const october = new AnalyticsRangeService({ fiscalYear: { startMonth: 10 } })
+  const nrf = new AnalyticsRangeService({ fiscalYear: NRF })
+
+  it('should compare against the same quarter of last fiscal year', () => {
+    const quarter = july.getPresetRange('thisFiscalQuarter', '2024-08-15')
+    const result = july.getFiscalYearOverYear(quarter)
+    expect(format(result.previous)).toBe('2023-07-01..2023-09-30')
+    expect(result.previous.label).toBe('Fiscal Year Over Year')
+    expect(result.changeType).toBe('yoy')
+
+    const appleQuarter = october.getPresetRange('thisFiscalQuarter', '2024-11-20')
+    expect(format(october.getFiscalYearOverYear(appleQuarter).previous)).toBe(
+      '2023-10-01..2023-12-31'
+    )
+  })
+
+  it('should keep whole quarters across 52/53-week years', () => {
+    // Q4 FY2024 has 14 weeks, Q4 FY2023 has 13
+    const quarter = nrf.getPresetRange('thisFiscalQuarter', '2024-01-15')
+    expect(format(nrf.getFiscalYearOverYear(quarter).previous)).toBe('2022-10-30..2023-01-28')
+  })
+
+  it('should step back by the quarters a range spans', () => {
+    const toDate = july.getPresetRange('fiscalQuarterToDate', '2024-08-15')
+    const result = july.getFiscalPreviousPeriod(toDate)
+    expect(format(result.previous)).toBe('2024-04-01..2024-05-15')
+    expect(result.previous.label).toBe('Previous Fiscal Period')
+
+    const year = october.getPresetRange('lastFiscalYear', '2024-11-20')
+    expect(format(october.getFiscalPreviousPeriod(year).previous)).toBe('2022-10-01..2023-09-30')
+  })
+
+  it('should fall back to the previous period for ranges within a quarter', () => {
+    const week = july.createCustomRange('2024-08-05', '2024-08-11')
+    const result = july.getFiscalPreviousPeriod(week)
+    expect(format(result.previous)).toBe('2024-07-29..2024-08-04')
+    expect(result.previous.label).toBe('Previous Period')
+  })
+})
+
+describe('fiscal iteration', () => {
+  it('should enumerate fiscal quarters and years', () => {
+    const service = new AnalyticsRangeService({ fiscalYear: { startMonth: 7 } })
+    const quarters = [...service.iterateFiscalQuarters('2024-05-10', '2024-12-01')]
+    expect(quarters.map(range => range.label)).toEqual(['Q4 FY2024', 'Q1 FY2025', 'Q2 FY2025'])
+    expect(quarters.map(format)[1]).toBe('2024-07-01..2024-09-30')
+
+    const years = [
+      ...new AnalyticsRangeService({ fiscalYear: NRF }).iterateFiscalYears(
+        '2023-03-01',
+        '2024-03-01'
+      )
+    ]
+    expect(years.map(format)).toEqual(['2023-01-29..2024-02-03', '2024-02-04..2025-02-01'])
+  })
+})
@@ -1,6 +1,18 @@
 import dayjs, { Dayjs, OpUnitType } from 'dayjs'
 import quarterOfYear from 'dayjs/plugin/quarterOfYear'
-import type { DateRange, DateInput } from '@dayjs-business/core'
+import {
+  DEFAULT_FISCAL_YEAR,
+  addFiscalQuarters,
+  fiscalQuartersBetween,
+  getFiscalQuarterEnd,
+  getFiscalQuarterStart,
+  getFiscalYearEnd,
+  getFiscalYearStart,
+  iterateFiscalQuarters,
+  iterateFiscalYears,
+  validateFiscalYearConfig
+} from '@dayjs-business/core'
+import type { DateRange, DateInput, FiscalYearConfig } from '@dayjs-business/core'
 
 // Ensure plugin is loaded
 dayjs.extend(quarterOfYear)
@@ -27,6 +39,11 @@ export type PresetRangeKey =
   | 'quarterToDate'
   | 'yearToDate'
   | 'weekToDate'
+  | 'thisFiscalQuarter'
+  | 'lastFiscalQuarter'
+  | 'fiscalQuarterToDate'
+  | 'fiscalYearToDate'
+  | 'lastFiscalYear'
 
 export interface AnalyticsServiceConfig {
   /** Week starts on (0 = Sunday, 1 = Monday) */
@@ -37,6 +54,8 @@ export interface AnalyticsServiceConfig {
   customLabels?: Partial<Record<PresetRangeKey, string>>
   /** Timezone for calculations */
   timezone?: string
+  /** Fiscal year used by the fiscal presets (calendar year by default) */
+  fiscalYear?: FiscalYearConfig
 }
 
 export interface ComparisonResult {
@@ -88,15 +107,25 @@ export class AnalyticsRangeService {
     monthToDate: 'Month to Date',
     quarterToDate: 'Quarter to Date',
     yearToDate: 'Year to Date',
-    weekToDate: 'Week to Date'
+    weekToDate: 'Week to Date',
+    thisFiscalQuarter: 'This Fiscal Quarter',
+    lastFiscalQuarter: 'Last Fiscal Quarter',
+    fiscalQuarterToDate: 'Fiscal Quarter to Date',
+    fiscalYearToDate: 'Fiscal Year to Date',
+    lastFiscalYear: 'Last Fiscal Year'
   }
 
   constructor(config: AnalyticsServiceConfig = {}) {
+    if (config.fiscalYear) {
+      validateFiscalYearConfig(config.fiscalYear)
+    }
+
     this.config = {
       weekStartsOn: config.weekStartsOn ?? 1,
       includeToday: config.includeToday ?? true,
       customLabels: config.customLabels ?? {},
-      timezone: config.timezone ?? 'UTC'
+      timezone: config.timezone ?? 'UTC',
+      fiscalYear: config.fiscalYear ?? DEFAULT_FISCAL_YEAR
     }
   }
 
@@ -261,6 +290,45 @@ export class AnalyticsRangeService {
       case 'weekToDate':
         return this.createRange(this.getWeekStart(today), today, this.getLabel('weekToDate'))
 
+      case 'thisFiscalQuarter':
+        return this.createRange(
+          getFiscalQuarterStart(today, this.config.fiscalYear),
+          getFiscalQuarterEnd(today, this.config.fiscalYear),
+          this.getLabel('thisFiscalQuarter')
+        )
+
+      case 'lastFiscalQuarter': {
+        const lastQuarter = getFiscalQuarterStart(today, this.config.fiscalYear).subtract(1, 'day')
+        return this.createRange(
+          getFiscalQuarterStart(lastQuarter, this.config.fiscalYear),
+          lastQuarter,
+          this.getLabel('lastFiscalQuarter')
+        )
+      }
+
+      case 'fiscalQuarterToDate':
+        return this.createRange(
+          getFiscalQuarterStart(today, this.config.fiscalYear),
+          today,
+          this.getLabel('fiscalQuarterToDate')
+        )
+
+      case 'fiscalYearToDate':
+        return this.createRange(
+          getFiscalYearStart(today, this.config.fiscalYear),
+          today,
+          this.getLabel('fiscalYearToDate')
+        )
+
+      case 'lastFiscalYear': {
+        const lastYear = getFiscalYearStart(today, this.config.fiscalYear).subtract(1, 'day')
+        return this.createRange(
+          getFiscalYearStart(lastYear, this.config.fiscalYear),
+          getFiscalYearEnd(lastYear, this.config.fiscalYear),
+          this.getLabel('lastFiscalYear')
+        )
+      }
+
       default:
         throw new Error(`Unknown preset range: ${preset}`)
     }
@@ -319,6 +387,69 @@ export class AnalyticsRangeService {
     }
   }
 
+  /**
+   * Get the previous fiscal period: the range moved back by the number of
+   * fiscal quarters it spans (e.g. last quarter for a quarter, the same days
+   * of the previous quarter for quarter-to-date). Ranges that do not start on
+   * a fiscal quarter fall back to getPreviousPeriod.
+   */
+  getFiscalPreviousPeriod(range: DateRange): ComparisonResult {
+    const fiscalYear = this.config.fiscalYear
+    if (!range.start.isSame(getFiscalQuarterStart(range.start, fiscalYear), 'day')) {
+      return this.getPreviousPeriod(range)
+    }
+
+    const quarters = fiscalQuartersBetween(range.start, range.end, fiscalYear) + 1
+
+    return {
+      current: range,
+      previous: this.shiftFiscalRange(range, -quarters, 'Previous Fiscal Period'),
+      changeType: 'period'
+    }
+  }
+
+  /**
+   * Get the same fiscal range of the previous fiscal year (e.g. Q2 FY2025
+   * against Q2 FY2024), also when the fiscal years differ in length
+   */
+  getFiscalYearOverYear(range: DateRange): ComparisonResult {
+    return {
+      current: range,
+      previous: this.shiftFiscalRange(range, -4, 'Fiscal Year Over Year'),
+      changeType: 'yoy'
+    }
+  }
+
+  /**
+   * Move a range by whole fiscal quarters. Ranges ending on a quarter end keep
+   * ending on one, since 52/53-week quarters differ in length.
+   */
+  private shiftFiscalRange(range: DateRange, quarters: number, label: string): DateRange {
+    const fiscalYear = this.config.fiscalYear
+    const end = addFiscalQuarters(range.end, quarters, fiscalYear)
+    const endsQuarter = range.end.isSame(getFiscalQuarterEnd(range.end, fiscalYear), 'day')
+
+    return this.createRange(
+      addFiscalQuarters(range.start, quarters, fiscalYear),
+      endsQuarter ? getFiscalQuarterEnd(end, fiscalYear) : end,
+      label
+    )
+  }
+
+  /**
+   * Enumerate the fiscal quarters overlapping start..end as whole quarter ranges
+   */
+  iterateFiscalQuarters(start: DateInput, end: DateInput): Generator<DateRange> {
+    return iterateFiscalQuarters(dayjs(start), dayjs(end), this.config.fiscalYear)
+  }
+
+  /**
+   * Enumerate the fiscal years overlapping start..end as whole year ranges
+   */
+  iterateFiscalYears(start: DateInput, end: DateInput): Generator<DateRange> {
+    return iterateFiscalYears(dayjs(start), dayjs(end), this.config.fiscalYear)
+  }
+
   /**
    * Get custom comparison range
    */
@@ -455,7 +586,14 @@ export class AnalyticsRangeService {
       relative: ['today', 'yesterday', 'last7Days', 'last14Days', 'last30Days', 'last90Days'],
       calendar: ['thisWeek', 'lastWeek', 'thisMonth', 'lastMonth', 'thisQuarter', 'lastQuarter'],
       toDate: ['weekToDate', 'monthToDate', 'quarterToDate', 'yearToDate'],
-      yearly: ['thisYear', 'lastYear', 'last365Days']
+      yearly: ['thisYear', 'lastYear', 'last365Days'],
+      fiscal: [
+        'thisFiscalQuarter',
+        'lastFiscalQuarter',
+        'fiscalQuarterToDate',
+        'fiscalYearToDate',
+        'lastFiscalYear'
+      ]
     }
   }
 
@@ -463,6 +601,9 @@ export class AnalyticsRangeService {
    * Update configuration
    */
   configure(updates: Partial<AnalyticsServiceConfig>): void {
+    if (updates.fiscalYear) {
+      validateFiscalYearConfig(updates.fiscalYear)
+    }
     Object.assign(this.config, updates)
   }
 
@@ -493,7 +634,9 @@ export const QuickRanges = {
   LAST_MONTH: 'lastMonth' as const,
   THIS_QUARTER: 'thisQuarter' as const,
   THIS_YEAR: 'thisYear' as const,
-  YEAR_TO_DATE: 'yearToDate' as const
+  YEAR_TO_DATE: 'yearToDate' as const,
+  THIS_FISCAL_QUARTER: 'thisFiscalQuarter' as const,
+  FISCAL_YEAR_TO_DATE: 'fiscalYearToDate' as const
 }
 
 export default AnalyticsRangeService
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import type { Dayjs } from 'dayjs'
+import { RollConvention } from '@dayjs-business/core'
+import { BillingDateService } from './index'
+
+const ymd = (date: Dayjs): string => date.format('YYYY-MM-DD')
+
+describe('generateBillingSchedule', () => {
+  it('should list one billing date per cycle', () => {
+    const service = new BillingDateService({ defaultBillingDay: 15 })
+    const schedule = service.generateBillingSchedule('2024-01-10', '2024-12-31', 'quarterly', 30)
+    expect(schedule.billingDates.map(ymd)).toEqual([
+      '2024-01-15',
+      '2024-04-15',
+      '2024-07-15',
+      '2024-10-15'
+    ])
+    expect(schedule.totalAmount).toBe(120)
+  })
+
+  it('should not feed rolled dates back into the schedule', () => {
+    // March 31 and June 30 are Sundays
+    const service = new BillingDateService({
+      defaultBillingDay: 31,
+      skipWeekends: true,
+      rollConvention: RollConvention.PRECEDING
+    })
+    const schedule = service.generateBillingSchedule('2024-03-01', '2024-06-30', 'monthly', 10)
+    expect(schedule.billingDates.map(ymd)).toEqual([
+      '2024-03-29',
+      '2024-04-30',
+      '2024-05-31',
+      '2024-06-28'
+    ])
+  })
+})
+
+describe('anchored billing', () => {
+  const service = new BillingDateService({ skipWeekends: true })
+
+  it('should generate the schedule from the anchor', () => {
+    // March 31 is a Sunday and rolls to April 1 without shifting April
+    const schedule = service.generateAnchoredBillingSchedule(
+      '2024-01-31',
+      '2024-05-31',
+      'monthly',
+      10
+    )
+    expect(schedule.billingDates.map(ymd)).toEqual([
+      '2024-01-31',
+      '2024-02-29',
+      '2024-04-01',
+      '2024-04-30',
+      '2024-05-31'
+    ])
+    expect(schedule.totalCycles).toBe(5)
+    expect(schedule.totalAmount).toBe(50)
+  })
+
+  it('should find the next and previous anchored billing dates', () => {
+    expect(ymd(service.getNextAnchoredBillingDate('2024-01-31', '2024-04-02', 'monthly'))).toBe(
+      '2024-04-30'
+    )
+    expect(ymd(service.getPreviousAnchoredBillingDate('2024-01-31', '2024-03-15', 'monthly'))).toBe(
+      '2024-02-29'
+    )
+  })
+
+  it('should describe the anchored cycle', () => {
+    const info = service.getBillingCycleInfo('2024-02-15', 'monthly', undefined, '2024-01-31')
+    expect(ymd(info.currentCycleStart)).toBe('2024-01-31')
+    expect(ymd(info.nextBillingDate)).toBe('2024-02-29')
+    expect(info.daysInCurrentCycle).toBe(29)
+    expect(info.daysUntilBilling).toBe(14)
+  })
+})
@@ -1,5 +1,25 @@
 import dayjs, { Dayjs } from 'dayjs'
-import type { SubscriptionCycle, BillingDate, DateInput } from '@dayjs-business/core'
+import {
+  findHoliday,
+  getAnchoredBillingDate,
+  getAnchoredBillingIndex,
+  getCycleDays,
+  getCycleMonths,
+  getNextAnchoredBillingDate,
+  getPreviousAnchoredBillingDate,
+  isFullDayHoliday,
+  isHolidayOn,
+  isWeekendDay,
+  rollDate,
+  RollConvention
+} from '@dayjs-business/core'
+import type {
+  BillingCycle,
+  BillingDate,
+  DateInput,
+  Holiday,
+  HolidayCalendarRegistry
+} from '@dayjs-business/core'
 
 export interface BillingServiceConfig {
   /** Default billing day of month (1-31) */
@@ -8,14 +28,22 @@ export interface BillingServiceConfig {
   skipWeekends?: boolean
   /** Whether to skip holidays for billing */
   skipHolidays?: boolean
-  /** Holiday dates (YYYY-MM-DD format) */
-  holidays?: string[]
+  /** How billing dates on skipped days are rolled (default: following) */
+  rollConvention?: RollConvention
+  /** Holiday dates (YYYY-MM-DD format) or Holiday definitions (rules, observance) */
+  holidays?: Array<string | Holiday>
   /** Grace period in days */
   gracePeriodDays?: number
   /** Default trial period in days */
   defaultTrialDays?: number
+  /** Registry providing runtime-updatable holiday calendars */
+  holidayRegistry?: HolidayCalendarRegistry
+  /** Registry calendar whose holidays apply in addition to `holidays` */
+  holidayCalendarId?: string
 }
 
+type HolidayCalendarOptions = 'holidayRegistry' | 'holidayCalendarId'
+
 export interface BillingCycleInfo {
   currentCycleStart: Dayjs
   currentCycleEnd: Dayjs
@@ -53,57 +81,56 @@ export interface SubscriptionSchedule {
  * Handles billing dates, trial periods, proration, and subscription management
  */
 export class BillingDateService {
-  private readonly config: Required<BillingServiceConfig>
+  private readonly config: Required<Omit<BillingServiceConfig, HolidayCalendarOptions>>
+  private readonly holidayRegistry?: HolidayCalendarRegistry
+  private readonly holidayCalendarId?: string
 
   constructor(config: BillingServiceConfig = {}) {
     this.config = {
       defaultBillingDay: config.defaultBillingDay ?? 1,
       skipWeekends: config.skipWeekends ?? false,
       skipHolidays: config.skipHolidays ?? false,
+      rollConvention: config.rollConvention ?? RollConvention.FOLLOWING,
       holidays: config.holidays ?? [],
       gracePeriodDays: config.gracePeriodDays ?? 0,
       defaultTrialDays: config.defaultTrialDays ?? 0
     }
+    this.holidayRegistry = config.holidayRegistry
+    this.holidayCalendarId = config.holidayCalendarId
   }
 
   /**
-   * Adjust date if it falls on weekend or holiday
+   * Roll date off weekends and holidays (as configured) using the roll convention
    */
   private adjustForNonBusinessDay(date: Dayjs): Dayjs {
-    let adjusted = date
-
-    // Skip weekends
-    if (this.config.skipWeekends) {
-      const dayOfWeek = adjusted.day()
-      if (dayOfWeek === 0) {
-        // Sunday -> Monday
-        adjusted = adjusted.add(1, 'day')
-      } else if (dayOfWeek === 6) {
-        // Saturday -> Monday
-        adjusted = adjusted.add(2, 'day')
-      }
+    const skipHolidays = this.config.skipHolidays && this.hasHolidays()
+    if (!this.config.skipWeekends && !skipHolidays) {
+      return date
     }
 
-    // Skip holidays
-    if (this.config.skipHolidays && this.config.holidays.length > 0) {
-      let attempts = 0
-      while (this.isHoliday(adjusted) && attempts < 30) {
-        adjusted = adjusted.add(1, 'day')
-        attempts++
-
-        // Re-check weekends after holiday adjustment
-        if (this.config.skipWeekends) {
-          const dayOfWeek = adjusted.day()
-          if (dayOfWeek === 0) {
-            adjusted = adjusted.add(1, 'day')
-          } else if (dayOfWeek === 6) {
-            adjusted = adjusted.add(2, 'day')
-          }
-        }
+    return rollDate(date, this.config.rollConvention, day => {
+      if (this.config.skipWeekends && isWeekendDay(day)) {
+        return false
       }
-    }
+      return !skipHolidays || !this.isHoliday(day)
+    })
+  }
 
-    return adjusted
+  /**
+   * Check if any holiday source is configured
+   */
+  private hasHolidays(): boolean {
+    return this.config.holidays.length > 0 || this.getCalendarHolidays().length > 0
+  }
+
+  /**
+   * Get the current holidays of the registry calendar (read on every call)
+   */
+  private getCalendarHolidays(): ReturnType<HolidayCalendarRegistry['getHolidays']> {
+    if (!this.holidayRegistry || this.holidayCalendarId === undefined) {
+      return []
+    }
+    return this.holidayRegistry.getHolidays(this.holidayCalendarId)
   }
 
   /**
@@ -111,7 +138,15 @@ export class BillingDateService {
    */
   private isHoliday(date: Dayjs): boolean {
     const dateStr = date.format('YYYY-MM-DD')
-    return this.config.holidays.includes(dateStr)
+    const isConfiguredHoliday = this.config.holidays.some(holiday =>
+      typeof holiday === 'string'
+        ? holiday === dateStr
+        : isHolidayOn(holiday, date) && isFullDayHoliday(holiday)
+    )
+    if (isConfiguredHoliday) {
+      return true
+    }
+    return isFullDayHoliday(findHoliday(this.getCalendarHolidays(), date))
   }
 
   /**
@@ -124,73 +159,56 @@ export class BillingDateService {
   }
 
   /**
-   * Get cycle duration in months
+   * Calculate next billing date on the billing day (see
+   * getNextAnchoredBillingDate for subscriptions billed from their start)
    */
-  private getCycleMonths(cycle: SubscriptionCycle): number {
-    switch (cycle) {
-      case 'weekly':
-        return 0
-      case 'monthly':
-        return 1
-      case 'quarterly':
-        return 3
-      case 'yearly':
-        return 12
-    }
+  getNextBillingDate(fromDate: DateInput, cycle: BillingCycle, billingDay?: number): Dayjs {
+    const day = billingDay ?? this.config.defaultBillingDay
+    return this.adjustForNonBusinessDay(this.getScheduledBillingDate(dayjs(fromDate), cycle, day))
   }
 
   /**
-   * Calculate next billing date
+   * Get the first billing date after a date, before rolling
    */
-  getNextBillingDate(
-    fromDate: DateInput,
-    cycle: SubscriptionCycle,
-    billingDay?: number
-  ): Dayjs {
-    const from = dayjs(fromDate)
-    const day = billingDay ?? this.config.defaultBillingDay
-
-    if (cycle === 'weekly') {
-      let next = from.add(7, 'day')
-      return this.adjustForNonBusinessDay(next.startOf('day'))
+  private getScheduledBillingDate(from: Dayjs, cycle: BillingCycle, billingDay: number): Dayjs {
+    const days = getCycleDays(cycle)
+    if (days > 0) {
+      return from.add(days, 'day').startOf('day')
     }
 
-    const months = this.getCycleMonths(cycle)
+    const months = getCycleMonths(cycle)
     let nextDate = from.add(1, 'day').startOf('month')
-    nextDate = this.adjustBillingDay(nextDate, day)
+    nextDate = this.adjustBillingDay(nextDate, billingDay)
 
     // If the calculated date is before current, move forward by cycle
     while (nextDate.isBefore(from) || nextDate.isSame(from, 'day')) {
-      nextDate = nextDate.add(months || 1, 'month')
-      nextDate = this.adjustBillingDay(nextDate, day)
+      nextDate = nextDate.add(months, 'month')
+      nextDate = this.adjustBillingDay(nextDate, billingDay)
     }
 
-    return this.adjustForNonBusinessDay(nextDate.startOf('day'))
+    return nextDate.startOf('day')
   }
 
   /**
    * Calculate previous billing date
    */
-  getPreviousBillingDate(
-    fromDate: DateInput,
-    cycle: SubscriptionCycle,
-    billingDay?: number
-  ): Dayjs {
+  getPreviousBillingDate(fromDate: DateInput, cycle: BillingCycle, billingDay?: number): Dayjs {
     const from = dayjs(fromDate)
     const day = billingDay ?? this.config.defaultBillingDay
 
-    if (cycle === 'weekly') {
-      const prev = from.subtract(7, 'day')
+    const days = getCycleDays(cycle)
+    if (days > 0) {
+      const prev = from.subtract(days, 'day')
       return this.adjustForNonBusinessDay(prev.startOf('day'))
     }
 
-    const months = this.getCycleMonths(cycle)
+    const months = getCycleMonths(cycle)
     let prevDate = from.startOf('month')
     prevDate = this.adjustBillingDay(prevDate, day)
 
     // If the calculated date is after current, move backward
     if (prevDate.isAfter(from) || prevDate.isSame(from, 'day')) {
-      prevDate = prevDate.subtract(months || 1, 'month')
+      prevDate = prevDate.subtract(months, 'month')
       prevDate = this.adjustBillingDay(prevDate, day)
     }
 
@@ -198,16 +216,58 @@ export class BillingDateService {
   }
 
   /**
-   * Get comprehensive billing cycle information
+   * Calculate the next billing date of a subscription billed from an anchor
+   * date (usually its start). Every cycle is computed from the anchor, so a
+   * subscription started on the 31st bills on the last day of shorter months
+   * and returns to the 31st afterwards.
+   */
+  getNextAnchoredBillingDate(
+    anchorDate: DateInput,
+    fromDate: DateInput,
+    cycle: BillingCycle
+  ): Dayjs {
+    return this.adjustForNonBusinessDay(
+      getNextAnchoredBillingDate(dayjs(anchorDate), dayjs(fromDate), cycle)
+    )
+  }
+
+  /**
+   * Calculate the previous billing date of a subscription billed from an anchor date
+   */
+  getPreviousAnchoredBillingDate(
+    anchorDate: DateInput,
+    fromDate: DateInput,
+    cycle: BillingCycle
+  ): Dayjs {
+    return this.adjustForNonBusinessDay(
+      getPreviousAnchoredBillingDate(dayjs(anchorDate), dayjs(fromDate), cycle)
+    )
+  }
+
+  /**
+   * Get comprehensive billing cycle information. With an anchor date (usually
+   * the subscription start), the cycle follows the anchored schedule and
+   * `billingDay` is ignored.
    */
   getBillingCycleInfo(
     currentDate: DateInput,
-    cycle: SubscriptionCycle,
-    billingDay?: number
+    cycle: BillingCycle,
+    billingDay?: number,
+    anchorDate?: DateInput
   ): BillingCycleInfo {
     const current = dayjs(currentDate)
-    const nextBilling = this.getNextBillingDate(current, cycle, billingDay)
-    const previousBilling = this.getPreviousBillingDate(current, cycle, billingDay)
+    let nextBilling: Dayjs
+    let previousBilling: Dayjs
+
+    if (anchorDate !== undefined) {
+      const anchor = dayjs(anchorDate)
+      const index = getAnchoredBillingIndex(anchor, current, cycle)
+      nextBilling = this.adjustForNonBusinessDay(getAnchoredBillingDate(anchor, cycle, index + 1))
+      previousBilling = this.adjustForNonBusinessDay(getAnchoredBillingDate(anchor, cycle, index))
+    } else {
+      nextBilling = this.getNextBillingDate(current, cycle, billingDay)
+      previousBilling = this.getPreviousBillingDate(current, cycle, billingDay)
+    }
 
     const daysInCycle = nextBilling.diff(previousBilling, 'day')
     const daysUsed = current.diff(previousBilling, 'day')
@@ -282,7 +342,7 @@ export class BillingDateService {
    */
   getBillingDateAfterTrial(
     subscriptionStart: DateInput,
-    cycle: SubscriptionCycle,
+    cycle: BillingCycle,
     trialDays?: number,
     billingDay?: number
   ): BillingDate {
@@ -301,24 +361,56 @@ export class BillingDateService {
   }
 
   /**
-   * Generate subscription billing schedule
+   * Generate subscription billing schedule on the billing day (see
+   * generateAnchoredBillingSchedule for subscriptions billed from their start)
    */
   generateBillingSchedule(
     startDate: DateInput,
     endDate: DateInput,
-    cycle: SubscriptionCycle,
+    cycle: BillingCycle,
     amountPerCycle: number,
     billingDay?: number
   ): SubscriptionSchedule {
     const billingDates: Dayjs[] = []
-    const start = dayjs(startDate)
     const end = dayjs(endDate)
+    const day = billingDay ?? this.config.defaultBillingDay
 
-    let currentBilling = this.getNextBillingDate(start, cycle, billingDay)
+    // Step through the unrolled dates, so rolled dates never feed back into
+    // the schedule (a preceding roll would otherwise repeat the same date)
+    let scheduled = this.getScheduledBillingDate(dayjs(startDate), cycle, day)
 
-    while (currentBilling.isBefore(end) || currentBilling.isSame(end, 'day')) {
-      billingDates.push(currentBilling)
-      currentBilling = this.getNextBillingDate(currentBilling, cycle, billingDay)
+    while (!scheduled.isAfter(end, 'day')) {
+      billingDates.push(this.adjustForNonBusinessDay(scheduled))
+      scheduled = this.getScheduledBillingDate(scheduled, cycle, day)
+    }
+
+    return {
+      billingDates,
+      totalCycles: billingDates.length,
+      totalAmount: billingDates.length * amountPerCycle
+    }
+  }
+
+  /**
+   * Generate the billing schedule of a subscription billed from an anchor
+   * date, from the anchor itself through the end date
+   */
+  generateAnchoredBillingSchedule(
+    anchorDate: DateInput,
+    endDate: DateInput,
+    cycle: BillingCycle,
+    amountPerCycle: number
+  ): SubscriptionSchedule {
+    const billingDates: Dayjs[] = []
+    const anchor = dayjs(anchorDate)
+    const end = dayjs(endDate)
+
+    for (let index = 0; ; index++) {
+      const billingDate = getAnchoredBillingDate(anchor, cycle, index)
+      if (billingDate.isAfter(end, 'day')) {
+        break
+      }
+      billingDates.push(this.adjustForNonBusinessDay(billingDate))
     }
 
     return {
@@ -331,11 +423,7 @@ export class BillingDateService {
   /**
    * Check if billing is due (within grace period)
    */
-  isBillingDue(
-    currentDate: DateInput,
-    cycle: SubscriptionCycle,
-    billingDay?: number
-  ): boolean {
+  isBillingDue(currentDate: DateInput, cycle: BillingCycle, billingDay?: number): boolean {
     const current = dayjs(currentDate)
     const nextBilling = this.getNextBillingDate(current, cycle, billingDay)
     const daysUntilBilling = nextBilling.diff(current, 'day')
@@ -346,11 +434,7 @@ export class BillingDateService {
   /**
    * Check if subscription is overdue
    */
-  isOverdue(
-    lastPaymentDate: DateInput,
-    cycle: SubscriptionCycle,
-    currentDate?: DateInput
-  ): boolean {
+  isOverdue(lastPaymentDate: DateInput, cycle: BillingCycle, currentDate?: DateInput): boolean {
     const lastPayment = dayjs(lastPaymentDate)
     const current = currentDate ? dayjs(currentDate) : dayjs()
     const expectedNextPayment = this.getNextBillingDate(lastPayment, cycle)
@@ -370,14 +454,14 @@ export class BillingDateService {
   /**
    * Update holidays configuration
    */
-  setHolidays(holidays: string[]): void {
+  setHolidays(holidays: Array<string | Holiday>): void {
     this.config.holidays = holidays
   }
 
   /**
    * Get current configuration
    */
-  getConfig(): Readonly<Required<BillingServiceConfig>> {
+  getConfig(): Readonly<Required<Omit<BillingServiceConfig, HolidayCalendarOptions>>> {
     return Object.freeze({ ...this.config })
   }
 }
@@ -399,11 +483,7 @@ export function daysBetweenBillingDates(date1: DateInput, date2: DateInput): num
 /**
  * Get all billing dates in a year
  */
-export function getAnnualBillingDates(
-  year: number,
-  cycle: SubscriptionCycle,
-  billingDay = 1
-): Dayjs[] {
+export function getAnnualBillingDates(year: number, cycle: BillingCycle, billingDay = 1): Dayjs[] {
   const service = new BillingDateService({ defaultBillingDay: billingDay })
   const startOfYear = dayjs().year(year).startOf('year')
   const endOfYear = dayjs().year(year).endOf('year')
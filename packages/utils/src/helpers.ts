@@ -3,7 +3,13 @@ import weekOfYear from 'dayjs/plugin/weekOfYear'
 
 // 注册周序号插件，确保在任何 .week() 调用前完成初始化
 dayjs.extend(weekOfYear)
-import type { DateInput, DateRange } from '@dayjs-business/core'
+import { isBusinessDate } from '@dayjs-business/core'
+import type {
+  BusinessDaySource,
+  DateInput,
+  DateRange,
+  HolidayCalendarRegistry
+} from '@dayjs-business/core'
 
 /**
  * Get the difference between two dates in various units
@@ -78,6 +84,20 @@ export function getWeekdaysBetween(start: DateInput, end: DateInput): Dayjs[] {
   })
 }
 
+/**
+ * Get array of business days between two dates (inclusive) according to
+ * business rules: workdays, make-up workdays, holidays and registry calendars.
+ * Defaults to Monday - Friday without holidays.
+ */
+export function getBusinessDaysBetween(
+  start: DateInput,
+  end: DateInput,
+  rules?: BusinessDaySource,
+  registry?: HolidayCalendarRegistry
+): Dayjs[] {
+  return getDatesBetween(start, end).filter(date => isBusinessDate(date, rules, registry))
+}
+
 /**
  * Get array of weekend days between two dates
  */
@@ -41,6 +41,7 @@ export {
   endOf,
   getDatesBetween,
   getWeekdaysBetween,
+  getBusinessDaysBetween,
   getWeekendsBetween,
   firstDayOfMonth,
   lastDayOfMonth,
@@ -1,3 +1,4 @@
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vitest/config'
 
 export default defineConfig({
@@ -21,8 +22,8 @@ export default defineConfig({
   },
   resolve: {
     alias: {
-      '@dayjs-business/core': './packages/core/src',
-      '@dayjs-business/utils': './packages/utils/src'
+      '@dayjs-business/core': fileURLToPath(new URL('./packages/core/src', import.meta.url)),
+      '@dayjs-business/utils': fileURLToPath(new URL('./packages/utils/src', import.meta.url))
     }
   }
 })